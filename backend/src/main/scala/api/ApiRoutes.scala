@@ -101,7 +101,11 @@ object ApiRoutes {
       departureDate: Option[LocalDate],
       returnDate: Option[LocalDate],
       maxResults: Option[Int],
-      skipCache: Option[Boolean]
+      skipCache: Option[Boolean],
+      skipIndices: Option[List[Int]],
+      destinationAirports: Option[List[String]],
+      // false runs a throwaway search (e.g. another traveller's origin) without saving its quotes
+      persist: Option[Boolean]
   )
   implicit val searchFlightsRequestDecoder: Decoder[SearchFlightsRequest] = deriveDecoder[SearchFlightsRequest]
 
@@ -121,8 +125,16 @@ object ApiRoutes {
   )
   implicit val searchFlightsResponseEncoder: Encoder[SearchFlightsResponse] = deriveEncoder[SearchFlightsResponse]
 
-  case class QuotesResponse(count: Int, quotes: List[WeekendQuote])
-  implicit val quotesResponseEncoder: Encoder[QuotesResponse] = deriveEncoder[QuotesResponse]
+  // Each quote is tagged with whether its airport is one of the session's friend airports
+  case class QuotesResponse(count: Int, quotes: List[WeekendQuote], friendAirports: Set[String])
+  implicit val quotesResponseEncoder: Encoder[QuotesResponse] = Encoder.instance { r =>
+    Json.obj(
+      "count" -> r.count.asJson,
+      "quotes" -> r.quotes.map { q =>
+        q.asJson.deepMerge(Json.obj("isFriendAirport" -> r.friendAirports.contains(q.bucket.key.airport.code).asJson))
+      }.asJson
+    )
+  }
 
   case class SessionInfoResponse(
       sessionId: String,
@@ -161,6 +173,12 @@ object ApiRoutes {
   case class ApiKeyUsageResponse(keys: List[ApiKeyUsage])
   implicit val apiKeyUsageResponseEncoder: Encoder[ApiKeyUsageResponse] = deriveEncoder[ApiKeyUsageResponse]
 
+  case class ApiKeysRequest(apiKeys: List[String])
+  implicit val apiKeysRequestDecoder: Decoder[ApiKeysRequest] = deriveDecoder[ApiKeysRequest]
+
+  case class ApiKeysUpdatedResponse(message: String, apiKeyCount: Int)
+  implicit val apiKeysUpdatedResponseEncoder: Encoder[ApiKeysUpdatedResponse] = deriveEncoder[ApiKeysUpdatedResponse]
+
   // SSE Progress Events
   case class SearchProgress(
       current: Int,
@@ -168,7 +186,9 @@ object ApiRoutes {
       destination: String,
       departureDate: LocalDate,
       fromCache: Boolean,
-      priceUsd: Option[BigDecimal]
+      priceUsd: Option[BigDecimal],
+      index: Int,
+      result: FlightSearchResult
   )
   implicit val searchProgressEncoder: Encoder[SearchProgress] = deriveEncoder[SearchProgress]
 
@@ -191,12 +211,15 @@ object ApiRoutes {
   object SearchParam extends OptionalQueryParamDecoderMatcher[String]("search")
   object LimitParam extends OptionalQueryParamDecoderMatcher[Int]("limit")
   object SkipCacheParam extends OptionalQueryParamDecoderMatcher[Boolean]("skipCache")
+  object MaskedKeyParam extends OptionalQueryParamDecoderMatcher[String]("maskedKey")
 
   private val omnipongUrl = uri"https://omnipong.com/t-tourney.asp?e=0"
 
   // Session TTL: 1 hour
   private val SESSION_TTL_SECONDS = 3600L
   private val CACHE_TTL_SECONDS = 24L * 60 * 60
+  // Reconnect delay advertised to SSE clients
+  private val SSE_RETRY_MILLIS = 3000
   private val cacheDir: Path = Paths.get("flight_cache")
 
   // ─────────────────────────────────────────────────────────────────────────────
@@ -212,9 +235,6 @@ object ApiRoutes {
       weekendQuotes: List[WeekendQuote],
       createdAt: Instant
   ) {
-    def maskKey(key: String): String =
-      if (key.length <= 8) "****" else s"${key.take(4)}...${key.takeRight(4)}"
-
     def isExpired: Boolean =
       Instant.now().getEpochSecond - createdAt.getEpochSecond > SESSION_TTL_SECONDS
 
@@ -235,6 +255,40 @@ object ApiRoutes {
   private def toQuoteCacheInfo(ci: CacheInfo): QuoteCacheInfo =
     QuoteCacheInfo(ci.fromCache, ci.cacheAgeSeconds, ci.cachedAt)
 
+  private def maskKey(key: String): String =
+    if (key.length <= 8) "****" else s"${key.take(4)}...${key.takeRight(4)}"
+
+  /** Look up SerpAPI account status for each key, in the order given */
+  private def fetchKeyUsage(backend: SttpBackend[IO, Any], apiKeys: List[String]): IO[List[ApiKeyUsage]] =
+    apiKeys.parTraverse { key =>
+      AccountClient.fetchAccountInfo(backend, key).map {
+        case Right(info) =>
+          ApiKeyUsage(
+            maskedKey = maskKey(key),
+            accountEmail = Some(info.accountEmail),
+            planName = Some(info.planName),
+            searchesPerMonth = Some(info.searchesPerMonth),
+            thisMonthUsage = Some(info.thisMonthUsage),
+            planSearchesLeft = Some(info.planSearchesLeft),
+            extraCredits = Some(info.extraCredits),
+            totalSearchesLeft = Some(info.totalSearchesLeft),
+            error = None
+          )
+        case Left(err) =>
+          ApiKeyUsage(
+            maskedKey = maskKey(key),
+            accountEmail = None,
+            planName = None,
+            searchesPerMonth = None,
+            thisMonthUsage = None,
+            planSearchesLeft = None,
+            extraCredits = None,
+            totalSearchesLeft = None,
+            error = Some(err)
+          )
+      }
+    }
+
   // ─────────────────────────────────────────────────────────────────────────────
   // Data Loading Pipeline
   // ─────────────────────────────────────────────────────────────────────────────
@@ -275,6 +329,38 @@ object ApiRoutes {
     } yield weekendQuotes
   }
 
+  /** Pure: the (destination, departure, return) searches a request will run, nearest weekends first.
+    * The frontend quota planner mirrors this ordering, so keep the two in sync. */
+  private def plannedSearches(data: SessionData, searchReq: SearchFlightsRequest): List[(String, LocalDate, LocalDate)] = {
+    val tripDays = data.config.tripDurationDays
+    val allowed = searchReq.destinationAirports.map(_.map(_.toUpperCase).toSet)
+    val buckets = TournamentService.sortBuckets(data.filteredBuckets)
+      .filter(b => allowed.forall(_.contains(b.key.airport.code)))
+
+    val bucketsToSearch = (searchReq.destinationAirport, searchReq.departureDate) match {
+      case (Some(dest), Some(depDate)) =>
+        // Specific destination and date
+        val retDate = searchReq.returnDate.getOrElse(depDate.plusDays(tripDays))
+        List((dest, depDate, retDate))
+      case (Some(dest), None) =>
+        // Specific destination, use filtered buckets for dates
+        buckets
+          .filter(_.key.airport.code.equalsIgnoreCase(dest))
+          .map(b => (b.key.airport.code, b.key.weekendStart, b.key.weekendStart.plusDays(tripDays)))
+      case (None, Some(depDate)) =>
+        // Specific date, all destinations
+        buckets
+          .filter(_.key.weekendStart == depDate)
+          .map(b => (b.key.airport.code, depDate, searchReq.returnDate.getOrElse(depDate.plusDays(tripDays))))
+      case (None, None) =>
+        // Use all filtered buckets
+        buckets
+          .map(b => (b.key.airport.code, b.key.weekendStart, b.key.weekendStart.plusDays(tripDays)))
+    }
+
+    searchReq.maxResults.fold(bucketsToSearch)(n => bucketsToSearch.take(n))
+  }
+
   // ─────────────────────────────────────────────────────────────────────────────
   // Routes
   // ─────────────────────────────────────────────────────────────────────────────
@@ -316,6 +402,22 @@ object ApiRoutes {
           })
       }
 
+    // Merges search results into the session's weekend quotes, newest winning. Only weekendQuotes
+    // is written, onto the session as it is now, so keys or settings changed mid-search are kept.
+    def saveSearchResults(sessionId: String, results: List[FlightSearchResult]): IO[Unit] =
+      sessions.update { m =>
+        m.get(sessionId).fold(m) { current =>
+          val newQuotes = results.flatMap { result =>
+            current.allBuckets
+              .find(b => b.key.airport.code == result.destination && b.key.weekendStart == result.departureDate)
+              .map(b => WeekendQuote(b, result.quotes, result.cacheInfo))
+          }
+          val existingQuotesMap = current.weekendQuotes.map(q => (q.bucket.key.airport.code, q.bucket.key.weekendStart) -> q).toMap
+          val newQuotesMap = newQuotes.map(q => (q.bucket.key.airport.code, q.bucket.key.weekendStart) -> q).toMap
+          m + (sessionId -> current.copy(weekendQuotes = (existingQuotesMap ++ newQuotesMap).values.toList))
+        }
+      }
+
     HttpRoutes.of[IO] {
 
       // ─────────────────────────────────────────────────────────────────────────
@@ -413,34 +515,11 @@ object ApiRoutes {
       // POST /api/flights/search - Search for flights with custom parameters
       case req @ POST -> Root / "api" / "flights" / "search" =>
         req.as[SearchFlightsRequest].flatMap { searchReq =>
-          withSessionUpdate(req) { data =>
+          withSession(req) { data =>
             val origin = searchReq.originAirport.getOrElse(data.config.originAirport)
             val skipCache = searchReq.skipCache.getOrElse(false)
-            val maxResults = searchReq.maxResults
-
-            // Determine which buckets to search
-            val bucketsToSearch = (searchReq.destinationAirport, searchReq.departureDate) match {
-              case (Some(dest), Some(depDate)) =>
-                // Specific destination and date
-                val retDate = searchReq.returnDate.getOrElse(depDate.plusDays(data.config.tripDurationDays))
-                List((dest, depDate, retDate))
-              case (Some(dest), None) =>
-                // Specific destination, use filtered buckets for dates
-                data.filteredBuckets
-                  .filter(_.key.airport.code.equalsIgnoreCase(dest))
-                  .map(b => (b.key.airport.code, b.key.weekendStart, b.key.weekendStart.plusDays(data.config.tripDurationDays)))
-              case (None, Some(depDate)) =>
-                // Specific date, all destinations
-                data.filteredBuckets
-                  .filter(_.key.weekendStart == depDate)
-                  .map(b => (b.key.airport.code, depDate, searchReq.returnDate.getOrElse(depDate.plusDays(data.config.tripDurationDays))))
-              case (None, None) =>
-                // Use all filtered buckets
-                data.filteredBuckets
-                  .map(b => (b.key.airport.code, b.key.weekendStart, b.key.weekendStart.plusDays(data.config.tripDurationDays)))
-            }
 
-            val limitedBuckets = maxResults.fold(bucketsToSearch)(n => bucketsToSearch.take(n))
+            val limitedBuckets = plannedSearches(data, searchReq)
 
             for {
               keyManager    <- ApiKeyManager.create(data.apiKeys)
@@ -460,28 +539,12 @@ object ApiRoutes {
                 }
               }
 
-              // Update session with new quotes
-              newQuotes = results.flatMap { result =>
-                val bucket = data.allBuckets.find(b =>
-                  b.key.airport.code == result.destination &&
-                  b.key.weekendStart == result.departureDate
-                )
-                bucket.map { b =>
-                  WeekendQuote(b, result.quotes, result.cacheInfo)
-                }
-              }
-
-              // Merge new quotes with existing, preferring newer ones
-              existingQuotesMap = data.weekendQuotes.map(q => (q.bucket.key.airport.code, q.bucket.key.weekendStart) -> q).toMap
-              newQuotesMap = newQuotes.map(q => (q.bucket.key.airport.code, q.bucket.key.weekendStart) -> q).toMap
-              mergedQuotes = (existingQuotesMap ++ newQuotesMap).values.toList
-
-              updatedData = data.copy(weekendQuotes = mergedQuotes)
+              _ <- if (searchReq.persist.getOrElse(true)) saveSearchResults(data.sessionId, results) else IO.unit
               response <- Ok(SearchFlightsResponse(
                 results = results,
                 totalQuotes = results.map(_.quotes.size).sum
               ).asJson)
-            } yield (updatedData, response)
+            } yield response
           }
         }
 
@@ -500,34 +563,18 @@ object ApiRoutes {
                 case Some(data) =>
                   val origin = searchReq.originAirport.getOrElse(data.config.originAirport)
                   val skipCache = searchReq.skipCache.getOrElse(false)
-                  val maxResults = searchReq.maxResults
-
-                  // Determine which buckets to search
-                  val bucketsToSearch = (searchReq.destinationAirport, searchReq.departureDate) match {
-                    case (Some(dest), Some(depDate)) =>
-                      val retDate = searchReq.returnDate.getOrElse(depDate.plusDays(data.config.tripDurationDays))
-                      List((dest, depDate, retDate))
-                    case (Some(dest), None) =>
-                      data.filteredBuckets
-                        .filter(_.key.airport.code.equalsIgnoreCase(dest))
-                        .map(b => (b.key.airport.code, b.key.weekendStart, b.key.weekendStart.plusDays(data.config.tripDurationDays)))
-                    case (None, Some(depDate)) =>
-                      data.filteredBuckets
-                        .filter(_.key.weekendStart == depDate)
-                        .map(b => (b.key.airport.code, depDate, searchReq.returnDate.getOrElse(depDate.plusDays(data.config.tripDurationDays))))
-                    case (None, None) =>
-                      data.filteredBuckets
-                        .map(b => (b.key.airport.code, b.key.weekendStart, b.key.weekendStart.plusDays(data.config.tripDurationDays)))
-                  }
-
-                  val limitedBuckets = maxResults.fold(bucketsToSearch)(n => bucketsToSearch.take(n))
+                  val limitedBuckets = plannedSearches(data, searchReq)
                   val total = limitedBuckets.size
 
+                  // A resuming client lists the planned searches it already received
+                  val skipped = searchReq.skipIndices.getOrElse(Nil).toSet
+                  val pendingBuckets = limitedBuckets.zipWithIndex.filterNot { case (_, idx) => skipped.contains(idx) }
+
                   // Create SSE stream with parallel fetching and real-time progress events
                   val sseStream: Stream[IO, String] = Stream.eval(
                     for {
                       keyManager  <- ApiKeyManager.create(data.apiKeys)
-                      counterRef  <- Ref.of[IO, Int](0)
+                      counterRef  <- Ref.of[IO, Int](total - pendingBuckets.size)
                       resultsRef  <- Ref.of[IO, List[FlightSearchResult]](List.empty)
                       progressQ   <- cats.effect.std.Queue.unbounded[IO, Option[String]]
                     } yield (keyManager, counterRef, resultsRef, progressQ)
@@ -535,7 +582,7 @@ object ApiRoutes {
                     val flightsClient = new FlightsClient(backend, keyManager, cacheDir, CACHE_TTL_SECONDS)
 
                     // Parallel fetch all flights, emitting progress events to queue as each completes
-                    val fetchAll: IO[Unit] = limitedBuckets.parTraverse { case (dest, depDate, retDate) =>
+                    val fetchAll: IO[Unit] = pendingBuckets.parTraverse { case ((dest, depDate, retDate), index) =>
                       flightsClient.roundTripOptions(origin, dest, depDate, retDate, skipCache).flatMap { case (quotes, cacheInfo) =>
                         for {
                           current <- counterRef.updateAndGet(_ + 1)
@@ -553,10 +600,12 @@ object ApiRoutes {
                             destination = dest,
                             departureDate = depDate,
                             fromCache = cacheInfo.fromCache,
-                            priceUsd = quotes.sortBy(_.priceUsd).headOption.map(_.priceUsd)
+                            priceUsd = quotes.sortBy(_.priceUsd).headOption.map(_.priceUsd),
+                            index = index,
+                            result = result
                           )
                           _ <- resultsRef.update(_ :+ result)
-                          _ <- progressQ.offer(Some(s"event: progress\ndata: ${progress.asJson.noSpaces}\n\n"))
+                          _ <- progressQ.offer(Some(s"event: progress\nid: $current\ndata: ${progress.asJson.noSpaces}\n\n"))
                         } yield ()
                       }
                     }.void
@@ -564,20 +613,8 @@ object ApiRoutes {
                     // Run parallel fetches, then signal completion
                     val producer: IO[Unit] = fetchAll.guarantee(
                       resultsRef.get.flatMap { results =>
-                        val newQuotes = results.flatMap { result =>
-                          val bucket = data.allBuckets.find(b =>
-                            b.key.airport.code == result.destination &&
-                            b.key.weekendStart == result.departureDate
-                          )
-                          bucket.map(b => WeekendQuote(b, result.quotes, result.cacheInfo))
-                        }
-                        val existingQuotesMap = data.weekendQuotes.map(q => (q.bucket.key.airport.code, q.bucket.key.weekendStart) -> q).toMap
-                        val newQuotesMap = newQuotes.map(q => (q.bucket.key.airport.code, q.bucket.key.weekendStart) -> q).toMap
-                        val mergedQuotes = (existingQuotesMap ++ newQuotesMap).values.toList
-                        val updatedData = data.copy(weekendQuotes = mergedQuotes)
-
                         for {
-                          _ <- sessions.update(_ + (sessionId -> updatedData))
+                          _ <- if (searchReq.persist.getOrElse(true)) saveSearchResults(sessionId, results) else IO.unit
                           complete = SearchComplete(results, results.map(_.quotes.size).sum)
                           _ <- progressQ.offer(Some(s"event: complete\ndata: ${complete.asJson.noSpaces}\n\n"))
                           _ <- progressQ.offer(None) // Signal end of stream
@@ -587,7 +624,7 @@ object ApiRoutes {
 
                     // Stream from queue, concurrently with producer
                     Stream.eval(producer.start) >>
-                      Stream.fromQueueNoneTerminated(progressQ)
+                      (Stream.emit(s"retry: $SSE_RETRY_MILLIS\n\n") ++ Stream.fromQueueNoneTerminated(progressQ))
                   }.handleErrorWith { err =>
                     val errorEvent = s"event: error\ndata: ${SearchError(err.getMessage).asJson.noSpaces}\n\n"
                     Stream.emit(errorEvent)
@@ -619,7 +656,7 @@ object ApiRoutes {
           val sorted = FlightFilterService.sortByPrice(quotes)
           val limited = limitOpt.fold(sorted)(n => sorted.take(n))
 
-          Ok(QuotesResponse(limited.size, limited).asJson)
+          Ok(QuotesResponse(limited.size, limited, data.config.friendAirports).asJson)
         }
 
       // ─────────────────────────────────────────────────────────────────────────
@@ -664,37 +701,49 @@ object ApiRoutes {
       // GET /api/keys/usage - Get API key usage statistics
       case req @ GET -> Root / "api" / "keys" / "usage" =>
         withSession(req) { data =>
-          data.apiKeys.parTraverse { key =>
-            AccountClient.fetchAccountInfo(backend, key).map { result =>
-              val maskedKey = data.maskKey(key)
-              result match {
-                case Right(info) =>
-                  ApiKeyUsage(
-                    maskedKey = maskedKey,
-                    accountEmail = Some(info.accountEmail),
-                    planName = Some(info.planName),
-                    searchesPerMonth = Some(info.searchesPerMonth),
-                    thisMonthUsage = Some(info.thisMonthUsage),
-                    planSearchesLeft = Some(info.planSearchesLeft),
-                    extraCredits = Some(info.extraCredits),
-                    totalSearchesLeft = Some(info.totalSearchesLeft),
-                    error = None
-                  )
-                case Left(err) =>
-                  ApiKeyUsage(
-                    maskedKey = maskedKey,
-                    accountEmail = None,
-                    planName = None,
-                    searchesPerMonth = None,
-                    thisMonthUsage = None,
-                    planSearchesLeft = None,
-                    extraCredits = None,
-                    totalSearchesLeft = None,
-                    error = Some(err)
-                  )
-              }
-            }
-          }.flatMap(usages => Ok(ApiKeyUsageResponse(usages).asJson))
+          fetchKeyUsage(backend, data.apiKeys).flatMap(usages => Ok(ApiKeyUsageResponse(usages).asJson))
+        }
+
+      // POST /api/keys/validate - Check keys before creating a session (no auth required)
+      case req @ POST -> Root / "api" / "keys" / "validate" =>
+        req.as[ApiKeysRequest].flatMap { body =>
+          val keys = body.apiKeys.map(_.trim).filter(_.nonEmpty)
+          if (keys.isEmpty) BadRequest(ErrorResponse("apiKeys list cannot be empty").asJson)
+          else fetchKeyUsage(backend, keys).flatMap(usages => Ok(ApiKeyUsageResponse(usages).asJson))
+        }
+
+      // POST /api/keys - Add keys to the session's pool; keys already in it are ignored
+      case req @ POST -> Root / "api" / "keys" =>
+        req.as[ApiKeysRequest].flatMap { body =>
+          withSessionUpdate(req) { data =>
+            val newKeys = body.apiKeys.map(_.trim).filter(_.nonEmpty).distinct.filterNot(data.apiKeys.contains)
+            val updatedData = data.copy(apiKeys = data.apiKeys ++ newKeys)
+            Ok(ApiKeysUpdatedResponse(
+              message = s"Added ${newKeys.size} API key(s)",
+              apiKeyCount = updatedData.apiKeys.size
+            ).asJson).map(resp => (updatedData, resp))
+          }
+        }
+
+      // DELETE /api/keys/{index}?maskedKey= - Remove a key by its position in GET /api/keys/usage.
+      // The masked key must still match, so a list changed elsewhere never loses the wrong key.
+      case req @ DELETE -> Root / "api" / "keys" / IntVar(index) :? MaskedKeyParam(maskedKeyOpt) =>
+        withSessionUpdate(req) { data =>
+          if (index < 0 || index >= data.apiKeys.size)
+            BadRequest(ErrorResponse(s"No API key at index $index").asJson).map(resp => (data, resp))
+          else if (maskedKeyOpt.isEmpty)
+            BadRequest(ErrorResponse("maskedKey is required").asJson).map(resp => (data, resp))
+          else if (!maskedKeyOpt.contains(maskKey(data.apiKeys(index))))
+            Conflict(ErrorResponse("The session's API keys have changed. Refresh the list and try again.").asJson).map(resp => (data, resp))
+          else if (data.apiKeys.size == 1)
+            BadRequest(ErrorResponse("A session needs at least one API key").asJson).map(resp => (data, resp))
+          else {
+            val updatedData = data.copy(apiKeys = data.apiKeys.patch(index, Nil, 1))
+            Ok(ApiKeysUpdatedResponse(
+              message = "API key removed",
+              apiKeyCount = updatedData.apiKeys.size
+            ).asJson).map(resp => (updatedData, resp))
+          }
         }
     }
   }
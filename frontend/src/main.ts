@@ -1,9 +1,22 @@
 import { createApp } from 'vue';
 import { createPinia } from 'pinia';
 import App from './App.vue';
+import router from './router';
+import { restoreDemoMode } from './services/mockBackend';
+
+// Before the session store restores a persisted session, which may be a demo one
+restoreDemoMode();
 
 const app = createApp(App);
 const pinia = createPinia();
 
 app.use(pinia);
+app.use(router);
 app.mount('#app');
+
+// Console benchmark for the quotes view; kept out of production bundles
+if (import.meta.env.DEV) {
+  void import('./services/quoteBenchmark').then(({ runQuoteBenchmark }) => {
+    Object.assign(window, { runQuoteBenchmark });
+  });
+}
@@ -0,0 +1,93 @@
+import type { LocationQuery, LocationQueryRaw } from 'vue-router';
+import { DEFAULT_SORT, SORT_FIELDS, parseClock } from '@/services/quoteQuery';
+import type { QuoteQuery, SortField, SortState, Weekday } from '@/services/quoteQuery';
+
+// How results are shown: the quotes table/cards or the tournament calendar
+export type ResultsView = 'list' | 'calendar';
+
+function firstValue(value: LocationQuery[string]): string | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return raw ?? undefined;
+}
+
+function toPositiveNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+function toClock(value: string | undefined): string | undefined {
+  return value !== undefined && parseClock(value) !== null ? value : undefined;
+}
+
+// Comma-separated lists, e.g. "airlines=Delta,United"
+function toList(value: string | undefined): string[] {
+  return value ? value.split(',').map((v) => v.trim()).filter(Boolean) : [];
+}
+
+function toWeekdays(value: string | undefined): Weekday[] {
+  return toList(value)
+    .map(Number)
+    .filter((d): d is Weekday => Number.isInteger(d) && d >= 0 && d <= 6);
+}
+
+// Parse filters from the URL; unknown or malformed values fall back to "no filter"
+export function filtersFromQuery(query: LocationQuery): QuoteQuery {
+  return {
+    airport: firstValue(query.airport)?.toUpperCase(),
+    state: firstValue(query.state),
+    minPrice: toPositiveNumber(firstValue(query.minPrice)),
+    maxPrice: toPositiveNumber(firstValue(query.maxPrice)),
+    search: firstValue(query.search) ?? '',
+    friendsOnly: firstValue(query.friendsOnly) === 'true',
+    departAfter: toClock(firstValue(query.departAfter)),
+    departBefore: toClock(firstValue(query.departBefore)),
+    arriveBy: toClock(firstValue(query.arriveBy)),
+    includeAirlines: toList(firstValue(query.airlines)),
+    excludeAirlines: toList(firstValue(query.excludeAirlines)),
+    weekdays: toWeekdays(firstValue(query.days)),
+    limit: toPositiveNumber(firstValue(query.limit)),
+  };
+}
+
+export function sortFromQuery(query: LocationQuery): SortState {
+  const by = firstValue(query.sort) as SortField | undefined;
+  const order = firstValue(query.order);
+  return {
+    by: by && SORT_FIELDS.includes(by) ? by : DEFAULT_SORT.by,
+    order: order === 'desc' ? 'desc' : DEFAULT_SORT.order,
+  };
+}
+
+export function viewFromQuery(query: LocationQuery): ResultsView {
+  return firstValue(query.view) === 'calendar' ? 'calendar' : 'list';
+}
+
+// Only non-default values are written so shared links stay short
+export function filtersToQuery(filters: QuoteQuery, sort: SortState, view: ResultsView = 'list'): LocationQueryRaw {
+  const query: LocationQueryRaw = {};
+  if (filters.airport) query.airport = filters.airport;
+  if (filters.state) query.state = filters.state;
+  if (filters.minPrice) query.minPrice = String(filters.minPrice);
+  if (filters.maxPrice) query.maxPrice = String(filters.maxPrice);
+  if (filters.search) query.search = filters.search;
+  if (filters.friendsOnly) query.friendsOnly = 'true';
+  if (filters.departAfter) query.departAfter = filters.departAfter;
+  if (filters.departBefore) query.departBefore = filters.departBefore;
+  if (filters.arriveBy) query.arriveBy = filters.arriveBy;
+  if (filters.includeAirlines?.length) query.airlines = filters.includeAirlines.join(',');
+  if (filters.excludeAirlines?.length) query.excludeAirlines = filters.excludeAirlines.join(',');
+  if (filters.weekdays?.length) query.days = [...filters.weekdays].sort().join(',');
+  if (filters.limit) query.limit = String(filters.limit);
+  if (sort.by !== DEFAULT_SORT.by) query.sort = sort.by;
+  if (sort.order !== DEFAULT_SORT.order) query.order = sort.order;
+  if (view !== 'list') query.view = view;
+  return query;
+}
+
+export function isSameQuery(a: LocationQueryRaw, b: LocationQueryRaw): boolean {
+  const keysA = Object.keys(a).filter((k) => a[k] !== undefined);
+  const keysB = Object.keys(b).filter((k) => b[k] !== undefined);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every((k) => String(a[k]) === String(b[k]));
+}
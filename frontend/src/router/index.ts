@@ -0,0 +1,73 @@
+import { createRouter, createWebHistory } from 'vue-router';
+import { useSessionStore } from '@/stores/session';
+import ApiKeySetup from '@/views/ApiKeySetup.vue';
+import FlightSearch from '@/views/FlightSearch.vue';
+import WeekendDetail from '@/views/WeekendDetail.vue';
+import TeamTrip from '@/views/TeamTrip.vue';
+
+declare module 'vue-router' {
+  interface RouteMeta {
+    requiresSession?: boolean;
+  }
+}
+
+const router = createRouter({
+  history: createWebHistory(import.meta.env.BASE_URL),
+  routes: [
+    {
+      path: '/',
+      redirect: '/search',
+    },
+    {
+      path: '/setup',
+      name: 'setup',
+      component: ApiKeySetup,
+    },
+    {
+      path: '/search',
+      name: 'search',
+      component: FlightSearch,
+      meta: { requiresSession: true },
+      children: [
+        {
+          path: 'weekend/:airport/:weekendStart',
+          name: 'weekend',
+          component: WeekendDetail,
+          meta: { requiresSession: true },
+        },
+      ],
+    },
+    {
+      path: '/team',
+      name: 'team',
+      component: TeamTrip,
+      meta: { requiresSession: true },
+    },
+    {
+      path: '/:pathMatch(.*)*',
+      redirect: '/search',
+    },
+  ],
+});
+
+// Resume a persisted session once, before the first route is resolved
+let restoreAttempt: Promise<boolean> | null = null;
+
+router.beforeEach(async (to) => {
+  const sessionStore = useSessionStore();
+
+  if (!restoreAttempt) {
+    restoreAttempt = sessionStore.restoreSession();
+  }
+  await restoreAttempt;
+
+  if (to.meta.requiresSession && !sessionStore.isAuthenticated) {
+    return { name: 'setup', query: { redirect: to.fullPath } };
+  }
+  if (to.name === 'setup' && sessionStore.isAuthenticated) {
+    return { name: 'search' };
+  }
+  return true;
+});
+
+export default router;
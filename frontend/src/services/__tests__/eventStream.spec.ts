@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { EventStreamParser } from '@/services/eventStream';
+import type { ServerSentEvent } from '@/services/eventStream';
+
+function createParser() {
+  const events: ServerSentEvent[] = [];
+  const retries: number[] = [];
+  const parser = new EventStreamParser({
+    onEvent: (event) => events.push(event),
+    onRetry: (retryMs) => retries.push(retryMs),
+  });
+  return { parser, events, retries };
+}
+
+function parse(...chunks: string[]) {
+  const result = createParser();
+  for (const chunk of chunks) result.parser.feed(chunk);
+  result.parser.end();
+  return result;
+}
+
+describe('EventStreamParser', () => {
+  it('dispatches an event on a blank line, defaulting the type to message', () => {
+    const { events } = parse('data: hello\n\n');
+    expect(events).toEqual([{ type: 'message', data: 'hello', lastEventId: '' }]);
+  });
+
+  it('uses the event field as the type and resets it after dispatch', () => {
+    const { events } = parse('event: progress\ndata: 1\n\ndata: 2\n\n');
+    expect(events.map((e) => e.type)).toEqual(['progress', 'message']);
+  });
+
+  it.each([
+    ['LF', '\n'],
+    ['CRLF', '\r\n'],
+    ['CR', '\r'],
+  ])('splits lines on %s', (_name, eol) => {
+    const { events } = parse(`event: a${eol}data: 1${eol}${eol}event: b${eol}data: 2${eol}${eol}`);
+    expect(events.map((e) => [e.type, e.data])).toEqual([
+      ['a', '1'],
+      ['b', '2'],
+    ]);
+  });
+
+  it.each([
+    ['LF', '\n'],
+    ['CRLF', '\r\n'],
+    ['CR', '\r'],
+  ])('reassembles %s-terminated events fed one character at a time', (_name, eol) => {
+    const stream = `event: a${eol}data: first${eol}${eol}data: second${eol}${eol}`;
+    const { events } = parse(...stream.split(''));
+    expect(events.map((e) => [e.type, e.data])).toEqual([
+      ['a', 'first'],
+      ['message', 'second'],
+    ]);
+  });
+
+  it('treats a CRLF split across chunks as one line break', () => {
+    const { events } = parse('data: 1\r', '\n\r', '\ndata: 2\r\n\r\n');
+    expect(events.map((e) => e.data)).toEqual(['1', '2']);
+  });
+
+  it('treats a CR at the end of a chunk followed by other text as a line break', () => {
+    const { events } = parse('data: 1\r', '\r', 'data: 2\r\r');
+    expect(events.map((e) => e.data)).toEqual(['1', '2']);
+  });
+
+  it('joins multiple data lines with newlines', () => {
+    const { events } = parse('data: {"a":\ndata: 1}\ndata\n\n');
+    expect(events[0]!.data).toBe('{"a":\n1}\n');
+  });
+
+  it('strips a single leading space from values only', () => {
+    const { events } = parse('data:no-space\n\ndata:  two-spaces\n\n');
+    expect(events.map((e) => e.data)).toEqual(['no-space', ' two-spaces']);
+  });
+
+  it('ignores events with no data lines', () => {
+    const { events } = parse('event: ping\n\nid: 7\n\n');
+    expect(events).toEqual([]);
+  });
+
+  it('records the last event id and carries it onto later events', () => {
+    const { parser, events } = parse('id: 1\ndata: a\n\ndata: b\n\nid\ndata: c\n\n');
+    expect(events.map((e) => e.lastEventId)).toEqual(['1', '1', '']);
+    expect(parser.lastEventId).toBe('');
+  });
+
+  it('ignores an id containing NUL', () => {
+    const { events } = parse('id: 1\ndata: a\n\nid: 2\0\ndata: b\n\n');
+    expect(events.map((e) => e.lastEventId)).toEqual(['1', '1']);
+  });
+
+  it('reports retry values made only of digits', () => {
+    const { retries, events } = parse('retry: 3000\nretry: 1.5\nretry: soon\nretry:250\ndata: x\n\n');
+    expect(retries).toEqual([3000, 250]);
+    expect(events).toHaveLength(1);
+  });
+
+  it('ignores comment lines and unknown fields', () => {
+    const { events } = parse(': keep-alive\n:\ndata: a\nfoo: bar\n: comment\n\n');
+    expect(events.map((e) => e.data)).toEqual(['a']);
+  });
+
+  it('strips a byte order mark at the start of the stream only', () => {
+    const { events } = parse('\uFEFFdata: a\n\n', '\uFEFFdata: b\n\n');
+    expect(events).toHaveLength(1);
+    expect(events[0]!.data).toBe('a');
+  });
+
+  it('strips a byte order mark arriving as its own chunk', () => {
+    const { events } = parse('\uFEFF', 'data: a\n\n');
+    expect(events.map((e) => e.data)).toEqual(['a']);
+  });
+
+  it('discards a trailing event that is never terminated', () => {
+    const { events } = parse('data: done\n\nevent: complete\ndata: partial');
+    expect(events.map((e) => e.data)).toEqual(['done']);
+  });
+
+  it('discards a trailing event missing only its blank line', () => {
+    const { events } = parse('data: done\n\ndata: partial\n');
+    expect(events.map((e) => e.data)).toEqual(['done']);
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { benchmarkWeekendQuotes, runQuoteBenchmark } from '@/services/quoteBenchmark';
+import { createQuoteRowCache, filterQuoteRows, runQuoteQuery, sortQuoteRows } from '@/services/quoteQuery';
+import type { QuoteQuery, SortState } from '@/services/quoteQuery';
+
+const TODAY = new Date('2026-10-18T12:00:00Z');
+const FRIENDS = ['MSP', 'DTW'];
+const cost = (_: unknown, quote: { priceUsd: number }) => quote.priceUsd + 400;
+
+describe('benchmarkWeekendQuotes', () => {
+  it('builds exactly the requested number of quotes, the same way each time', () => {
+    const weekendQuotes = benchmarkWeekendQuotes(10_000, TODAY);
+    expect(weekendQuotes.reduce((sum, wq) => sum + wq.quotes.length, 0)).toBe(10_000);
+    expect(benchmarkWeekendQuotes(10_000, TODAY)).toEqual(weekendQuotes);
+  });
+});
+
+describe('runQuoteBenchmark', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'table').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('gives every row of the 10k fixture its own id', () => {
+    const result = runQuoteBenchmark(10_000);
+    expect(result.quotes).toBe(10_000);
+    expect(result.rows).toBe(10_000);
+    expect(result.duplicateIds).toBe(0);
+  });
+});
+
+describe('quote row pipeline on the 10k fixture', () => {
+  const weekendQuotes = benchmarkWeekendQuotes(10_000, TODAY);
+
+  it('rebuilds only the rows of a replaced weekend', () => {
+    const cache = createQuoteRowCache();
+    const before = cache.rows(weekendQuotes, FRIENDS, cost, 'benchmark');
+    const replaced = weekendQuotes[0]!;
+    const streamed = weekendQuotes.map((wq) => (wq === replaced ? { ...wq, quotes: [...wq.quotes] } : wq));
+    const after = cache.rows(streamed, FRIENDS, cost, 'benchmark');
+
+    expect(after).toHaveLength(before.length);
+    expect(after.some((row) => row.bucket === replaced.bucket)).toBe(true);
+    after.forEach((row, i) => {
+      if (row.bucket === replaced.bucket) {
+        expect(row).not.toBe(before[i]);
+        expect(row).toEqual(before[i]);
+      } else {
+        expect(row).toBe(before[i]);
+      }
+    });
+  });
+
+  it.each<[string, QuoteQuery, SortState]>([
+    ['a tournament search', { search: 'Motor City Open' }, { by: 'total', order: 'asc' }],
+    ['filters with a limit', { maxPrice: 300, weekdays: [5], limit: 50 }, { by: 'price', order: 'asc' }],
+    ['a limit on a descending sort', { friendsOnly: true, limit: 25 }, { by: 'date', order: 'desc' }],
+  ])('filters pre-sorted rows to the same rows as runQuoteQuery for %s', (_name, query, sort) => {
+    const rows = createQuoteRowCache().rows(weekendQuotes, FRIENDS, cost, 'benchmark');
+    const expected = runQuoteQuery(rows, query, sort);
+    expect(expected.length).toBeGreaterThan(0);
+    expect(filterQuoteRows(sortQuoteRows(rows, sort), query)).toEqual(expected);
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, expect, it } from 'vitest';
+import { filterQuoteRows, quoteMatcher, runQuoteQuery, sortQuoteRows } from '@/services/quoteQuery';
+import type { QuoteQuery, QuoteRow } from '@/services/quoteQuery';
+import type { FlightQuote } from '@/types/api';
+
+// 2026-10-16 is a Friday
+function row(id: string, overrides: Partial<FlightQuote> = {}, airport = 'BOS', weekendStart = '2026-10-16'): QuoteRow {
+  return {
+    id,
+    bucket: {
+      key: { airport, weekendStart },
+      tournaments: [
+        {
+          name: 'Boston Open',
+          city: 'Boston',
+          stateOrRegion: 'MA',
+          startDate: '2026-10-17',
+          endDate: '2026-10-18',
+          rawDateText: 'Oct 17-18',
+        },
+      ],
+    },
+    quote: {
+      origin: 'ORD',
+      destination: airport,
+      departureDate: '2026-10-16',
+      returnDate: '2026-10-18',
+      priceUsd: 200,
+      outboundDepartureTime: '2026-10-16 09:00',
+      outboundArrivalTime: '2026-10-16 12:30',
+      airline: 'United',
+      ...overrides,
+    },
+    isFriendAirport: false,
+  };
+}
+
+function matchingIds(rows: QuoteRow[], query: QuoteQuery): string[] {
+  return rows.filter(quoteMatcher(query)).map((r) => r.id);
+}
+
+describe('quoteMatcher', () => {
+  describe('departure window', () => {
+    const rows = [
+      row('early', { outboundDepartureTime: '2026-10-16 06:00' }),
+      row('morning', { outboundDepartureTime: '2026-10-16 09:00' }),
+      row('evening', { outboundDepartureTime: '2026-10-16 18:45' }),
+    ];
+
+    it('keeps departures at or after departAfter', () => {
+      expect(matchingIds(rows, { departAfter: '09:00' })).toEqual(['morning', 'evening']);
+    });
+
+    it('keeps departures at or before departBefore', () => {
+      expect(matchingIds(rows, { departBefore: '09:00' })).toEqual(['early', 'morning']);
+    });
+
+    it('applies both bounds together', () => {
+      expect(matchingIds(rows, { departAfter: '07:00', departBefore: '12:00' })).toEqual(['morning']);
+    });
+
+    it('reads 12-hour clock times on the departure date', () => {
+      const pm = [row('pm', { outboundDepartureTime: '6:45 PM' }), row('am', { outboundDepartureTime: '12:15 AM' })];
+      expect(matchingIds(pm, { departAfter: '12:00' })).toEqual(['pm']);
+    });
+
+    it('lets unparseable departure times through', () => {
+      expect(matchingIds([row('unknown', { outboundDepartureTime: 'TBD' })], { departAfter: '09:00' })).toEqual([
+        'unknown',
+      ]);
+    });
+
+    it('ignores a malformed bound', () => {
+      expect(matchingIds(rows, { departAfter: '25:00' })).toEqual(['early', 'morning', 'evening']);
+    });
+  });
+
+  describe('arrive-by', () => {
+    it('keeps arrivals at or before the time on the departure day', () => {
+      const rows = [
+        row('on-time', { outboundArrivalTime: '2026-10-16 17:00' }),
+        row('late', { outboundArrivalTime: '2026-10-16 17:01' }),
+      ];
+      expect(matchingIds(rows, { arriveBy: '17:00' })).toEqual(['on-time']);
+    });
+
+    it('rejects a flight landing the next day, even early in the morning', () => {
+      const rows = [row('red-eye', { outboundDepartureTime: '2026-10-16 22:00', outboundArrivalTime: '2026-10-17 06:00' })];
+      expect(matchingIds(rows, { arriveBy: '23:00' })).toEqual([]);
+    });
+  });
+
+  describe('weekdays', () => {
+    const rows = [
+      row('thursday', { departureDate: '2026-10-15' }),
+      row('friday', { departureDate: '2026-10-16' }),
+      row('saturday', { departureDate: '2026-10-17' }),
+    ];
+
+    it('keeps departures on the selected days', () => {
+      expect(matchingIds(rows, { weekdays: [5, 6] })).toEqual(['friday', 'saturday']);
+    });
+
+    it('treats an empty selection as no filter', () => {
+      expect(matchingIds(rows, { weekdays: [] })).toEqual(['thursday', 'friday', 'saturday']);
+    });
+  });
+
+  describe('airlines', () => {
+    const rows = [row('united', { airline: 'United' }), row('delta', { airline: 'Delta' }), row('alaska', { airline: 'Alaska' })];
+
+    it('keeps only included airlines', () => {
+      expect(matchingIds(rows, { includeAirlines: ['Delta', 'Alaska'] })).toEqual(['delta', 'alaska']);
+    });
+
+    it('drops excluded airlines', () => {
+      expect(matchingIds(rows, { excludeAirlines: ['United'] })).toEqual(['delta', 'alaska']);
+    });
+
+    it('lets exclusion win over inclusion', () => {
+      expect(matchingIds(rows, { includeAirlines: ['Delta', 'United'], excludeAirlines: ['United'] })).toEqual(['delta']);
+    });
+
+    it('treats empty lists as no filter', () => {
+      expect(matchingIds(rows, { includeAirlines: [], excludeAirlines: [] })).toEqual(['united', 'delta', 'alaska']);
+    });
+  });
+
+  describe('price range', () => {
+    const rows = [row('cheap', { priceUsd: 99 }), row('mid', { priceUsd: 150 }), row('dear', { priceUsd: 400 })];
+
+    it('includes both bounds', () => {
+      expect(matchingIds(rows, { minPrice: 99, maxPrice: 150 })).toEqual(['cheap', 'mid']);
+    });
+
+    it('treats zero as a real bound', () => {
+      expect(matchingIds(rows, { maxPrice: 0 })).toEqual([]);
+    });
+
+    it('applies a minimum on its own', () => {
+      expect(matchingIds(rows, { minPrice: 151 })).toEqual(['dear']);
+    });
+  });
+});
+
+describe('sortQuoteRows', () => {
+  it('breaks ties on the sort field by price, cheapest first', () => {
+    const rows = [
+      row('bos-300', { priceUsd: 300 }, 'BOS'),
+      row('aus-250', { priceUsd: 250 }, 'AUS'),
+      row('bos-100', { priceUsd: 100 }, 'BOS'),
+      row('aus-400', { priceUsd: 400 }, 'AUS'),
+    ];
+    const ids = (sorted: QuoteRow[]) => sorted.map((r) => r.id);
+    expect(ids(sortQuoteRows(rows, { by: 'airport', order: 'asc' }))).toEqual(['aus-250', 'aus-400', 'bos-100', 'bos-300']);
+    // The tie-break stays cheapest first when the sort is reversed
+    expect(ids(sortQuoteRows(rows, { by: 'airport', order: 'desc' }))).toEqual(['bos-100', 'bos-300', 'aus-250', 'aus-400']);
+  });
+
+  it('keeps the original order for rows equal on the field and price', () => {
+    const rows = [row('first', {}, 'BOS', '2026-10-23'), row('second'), row('third')];
+    const sorted = sortQuoteRows(rows, { by: 'date', order: 'asc' });
+    expect(sorted.map((r) => r.id)).toEqual(['second', 'third', 'first']);
+  });
+
+  it('falls back to airfare for rows without a total', () => {
+    const rows = [{ ...row('with-total', { priceUsd: 100 }), totalCostUsd: 500 }, row('fare-only', { priceUsd: 300 })];
+    expect(sortQuoteRows(rows, { by: 'total', order: 'asc' }).map((r) => r.id)).toEqual(['fare-only', 'with-total']);
+  });
+
+  it('does not mutate its input', () => {
+    const rows = [row('b', { priceUsd: 2 }), row('a', { priceUsd: 1 })];
+    sortQuoteRows(rows, { by: 'price', order: 'asc' });
+    expect(rows.map((r) => r.id)).toEqual(['b', 'a']);
+  });
+});
+
+describe('limit', () => {
+  const rows = [
+    row('300', { priceUsd: 300 }),
+    row('100', { priceUsd: 100, airline: 'Delta' }),
+    row('200', { priceUsd: 200 }),
+    row('50', { priceUsd: 50 }),
+  ];
+
+  it('applies after filtering and sorting', () => {
+    const result = runQuoteQuery(rows, { excludeAirlines: ['Delta'], limit: 2 }, { by: 'price', order: 'asc' });
+    expect(result.map((r) => r.id)).toEqual(['50', '200']);
+  });
+
+  it('gives the same rows when filtering pre-sorted rows', () => {
+    const sort = { by: 'price', order: 'asc' } as const;
+    const query: QuoteQuery = { excludeAirlines: ['Delta'], limit: 2 };
+    expect(filterQuoteRows(sortQuoteRows(rows, sort), query)).toEqual(runQuoteQuery(rows, query, sort));
+  });
+
+  it('returns every match when unset or zero', () => {
+    expect(runQuoteQuery(rows, {}, { by: 'price', order: 'asc' })).toHaveLength(4);
+    expect(filterQuoteRows(rows, { limit: 0 })).toHaveLength(4);
+  });
+});
@@ -1,3 +1,20 @@
+import type { z } from 'zod';
+import {
+  SessionResponseSchema,
+  SessionInfoResponseSchema,
+  UpdateConfigResponseSchema,
+  AirportsResponseSchema,
+  StatesResponseSchema,
+  TournamentsResponseSchema,
+  QuotesResponseSchema,
+  SearchFlightsResponseSchema,
+  SearchProgressEventSchema,
+  BucketsResponseSchema,
+  ErrorResponseSchema,
+  ApiKeyUsageResponseSchema,
+  ApiKeysUpdatedResponseSchema,
+  HealthResponseSchema,
+} from '@/types/api';
 import type {
   CreateSessionRequest,
   SessionResponse,
@@ -15,28 +32,88 @@ import type {
   BucketsResponse,
   ErrorResponse,
   ApiKeyUsageResponse,
+  ApiKeysUpdatedResponse,
+  HealthResponse,
 } from '@/types/api';
+import { EventStreamParser } from '@/services/eventStream';
+import type { ServerSentEvent } from '@/services/eventStream';
 
 const API_BASE_URL = '';
 
+// How a request failed, so callers can decide between retrying, re-authenticating or giving up
+export type ApiErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'aborted'
+  | 'client'
+  | 'server'
+  | 'session-expired'
+  | 'invalid-response';
+
 class ApiError extends Error {
   constructor(
     public status: number,
-    public errorResponse: ErrorResponse
+    public errorResponse: ErrorResponse,
+    public kind: ApiErrorKind = status >= 500 ? 'server' : 'client',
+    public endpoint?: string
   ) {
     super(errorResponse.error);
     this.name = 'ApiError';
   }
-}
 
-async function handleResponse<T>(response: Response): Promise<T> {
-  if (!response.ok) {
-    const errorData: ErrorResponse = await response.json().catch(() => ({
-      error: `HTTP ${response.status}: ${response.statusText}`,
-    }));
-    throw new ApiError(response.status, errorData);
+  get isSessionExpired(): boolean {
+    return this.kind === 'session-expired';
+  }
+
+  get isAborted(): boolean {
+    return this.kind === 'aborted';
+  }
+
+  // Whether repeating the same request could succeed
+  get isRetryable(): boolean {
+    return this.kind === 'network' || this.kind === 'timeout' || this.kind === 'server';
   }
-  return response.json();
+}
+
+export interface ApiClientOptions {
+  timeoutMs: number;
+  retries: number;
+  retryBaseDelayMs: number;
+}
+
+export interface RequestOptions extends Partial<ApiClientOptions> {
+  signal?: AbortSignal;
+}
+
+const clientOptions: ApiClientOptions = {
+  timeoutMs: 30_000,
+  retries: 2,
+  retryBaseDelayMs: 500,
+};
+
+// Search stream reconnects; the server may override the delay with an SSE "retry:" field
+const STREAM_RECONNECT_DELAY_MS = 3_000;
+const STREAM_MAX_RECONNECTS = 5;
+
+export function configureApi(options: Partial<ApiClientOptions>): void {
+  Object.assign(clientOptions, options);
+}
+
+// Sends the HTTP requests; demo mode swaps in the in-browser mock backend
+export type Transport = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+const browserFetch: Transport = (input, init) => fetch(input, init);
+let transport: Transport = browserFetch;
+
+export function setApiTransport(next: Transport | null): void {
+  transport = next ?? browserFetch;
+}
+
+interface RequestSpec {
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  path: string;
+  sessionId?: string;
+  body?: unknown;
 }
 
 function buildHeaders(sessionId?: string): HeadersInit {
@@ -49,80 +126,194 @@ function buildHeaders(sessionId?: string): HeadersInit {
   return headers;
 }
 
-export const api = {
-  async createSession(request: CreateSessionRequest): Promise<SessionResponse> {
-    const response = await fetch(`${API_BASE_URL}/api/session`, {
-      method: 'POST',
-      headers: buildHeaders(),
-      body: JSON.stringify(request),
-    });
-    return handleResponse<SessionResponse>(response);
-  },
+async function errorFromResponse(response: Response, spec: RequestSpec): Promise<ApiError> {
+  const errorData: ErrorResponse = await response.json().catch(() => ({
+    error: `HTTP ${response.status}: ${response.statusText}`,
+  }));
+  const endpoint = `${spec.method} ${spec.path}`;
+
+  // The backend answers 401 (or 404 for unknown IDs) once a session has expired or been removed
+  if (spec.sessionId && (response.status === 401 || response.status === 404)) {
+    return new ApiError(response.status, errorData, 'session-expired', endpoint);
+  }
+  return new ApiError(response.status, errorData, undefined, endpoint);
+}
 
-  async deleteSession(sessionId: string): Promise<void> {
-    const response = await fetch(`${API_BASE_URL}/api/session`, {
-      method: 'DELETE',
-      headers: buildHeaders(sessionId),
+function errorFromException(err: unknown, spec: RequestSpec, timedOut: boolean): ApiError {
+  const endpoint = `${spec.method} ${spec.path}`;
+  if (timedOut) {
+    return new ApiError(0, { error: 'Request timed out' }, 'timeout', endpoint);
+  }
+  if (err instanceof DOMException && err.name === 'AbortError') {
+    return new ApiError(0, { error: 'Request cancelled' }, 'aborted', endpoint);
+  }
+  const message = err instanceof Error ? err.message : 'Network request failed';
+  return new ApiError(0, { error: message }, 'network', endpoint);
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      },
+      { once: true }
+    );
+  });
+}
+
+// One attempt: fetch with a timeout that also honours the caller's signal
+async function attempt(spec: RequestSpec, options: RequestOptions, timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const forwardAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', forwardAbort, { once: true });
+
+  try {
+    const response = await transport(`${API_BASE_URL}${spec.path}`, {
+      method: spec.method,
+      headers: buildHeaders(spec.sessionId),
+      body: spec.body === undefined ? undefined : JSON.stringify(spec.body),
+      signal: controller.signal,
     });
     if (!response.ok) {
-      const errorData: ErrorResponse = await response.json().catch(() => ({
-        error: `HTTP ${response.status}: ${response.statusText}`,
-      }));
-      throw new ApiError(response.status, errorData);
+      throw await errorFromResponse(response, spec);
     }
+    return response;
+  } catch (err) {
+    throw err instanceof ApiError ? err : errorFromException(err, spec, timedOut);
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', forwardAbort);
+  }
+}
+
+// Shared pipeline: timeout on every call, exponential backoff retries for idempotent GETs
+async function send(spec: RequestSpec, options: RequestOptions = {}): Promise<Response> {
+  const timeoutMs = options.timeoutMs ?? clientOptions.timeoutMs;
+  const retries = spec.method === 'GET' ? options.retries ?? clientOptions.retries : 0;
+  const baseDelay = options.retryBaseDelayMs ?? clientOptions.retryBaseDelayMs;
+
+  for (let attemptNo = 0; ; attemptNo++) {
+    try {
+      return await attempt(spec, options, timeoutMs);
+    } catch (err) {
+      const apiError = err as ApiError;
+      if (!apiError.isRetryable || attemptNo >= retries) throw apiError;
+
+      const backoff = baseDelay * 2 ** attemptNo + Math.random() * baseDelay;
+      try {
+        await delay(backoff, options.signal);
+      } catch (abortErr) {
+        throw errorFromException(abortErr, spec, false);
+      }
+    }
+  }
+}
+
+function formatIssuePath(path: PropertyKey[]): string {
+  return path.reduce<string>(
+    (acc, part) => (typeof part === 'number' ? `${acc}[${part}]` : `${acc}.${String(part)}`),
+    '$'
+  );
+}
+
+// Log which fields of a payload broke the contract; dev builds only
+function reportInvalidPayload(endpoint: string, issues: z.core.$ZodIssue[], data: unknown): void {
+  if (!import.meta.env.DEV) return;
+  console.groupCollapsed(`[api] ${endpoint} returned a payload that does not match its schema`);
+  for (const issue of issues) {
+    console.warn(`${formatIssuePath(issue.path)}: ${issue.message}`);
+  }
+  console.debug('Payload:', data);
+  console.groupEnd();
+}
+
+// Check a payload against its schema so contract drift fails here instead of inside a render function
+function validatePayload<T>(schema: z.ZodType<T>, data: unknown, endpoint: string): T {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  reportInvalidPayload(endpoint, result.error.issues, data);
+  const firstPath = formatIssuePath(result.error.issues[0]?.path ?? []);
+  throw new ApiError(0, { error: `Unexpected response from ${endpoint} at ${firstPath}` }, 'invalid-response', endpoint);
+}
+
+async function requestJson<T>(spec: RequestSpec, schema: z.ZodType<T>, options?: RequestOptions): Promise<T> {
+  const response = await send(spec, options);
+  const data: unknown = await response.json().catch(() => undefined);
+  return validatePayload(schema, data, `${spec.method} ${spec.path.split('?')[0]}`);
+}
+
+export const api = {
+  // No session needed. Polled with its own backoff, so a single short attempt per call
+  async getHealth(options?: RequestOptions): Promise<HealthResponse> {
+    return requestJson(
+      { method: 'GET', path: '/api/health' },
+      HealthResponseSchema,
+      { timeoutMs: 10_000, retries: 0, ...options }
+    );
   },
 
-  async getSession(sessionId: string): Promise<SessionInfoResponse> {
-    const response = await fetch(`${API_BASE_URL}/api/session`, {
-      method: 'GET',
-      headers: buildHeaders(sessionId),
-    });
-    return handleResponse<SessionInfoResponse>(response);
+  async createSession(request: CreateSessionRequest, options?: RequestOptions): Promise<SessionResponse> {
+    // Session creation scrapes tournament data server-side, so it gets a longer default timeout
+    return requestJson(
+      { method: 'POST', path: '/api/session', body: request },
+      SessionResponseSchema,
+      { timeoutMs: 120_000, ...options }
+    );
   },
 
-  async updateConfig(sessionId: string, config: UpdateConfigRequest): Promise<UpdateConfigResponse> {
-    const response = await fetch(`${API_BASE_URL}/api/session/config`, {
-      method: 'PATCH',
-      headers: buildHeaders(sessionId),
-      body: JSON.stringify(config),
-    });
-    return handleResponse<UpdateConfigResponse>(response);
+  async deleteSession(sessionId: string, options?: RequestOptions): Promise<void> {
+    await send({ method: 'DELETE', path: '/api/session', sessionId }, options);
   },
 
-  async getAirports(sessionId: string): Promise<AirportsResponse> {
-    const response = await fetch(`${API_BASE_URL}/api/airports`, {
-      method: 'GET',
-      headers: buildHeaders(sessionId),
-    });
-    return handleResponse<AirportsResponse>(response);
+  async getSession(sessionId: string, options?: RequestOptions): Promise<SessionInfoResponse> {
+    return requestJson({ method: 'GET', path: '/api/session', sessionId }, SessionInfoResponseSchema, options);
   },
 
-  async getStates(sessionId: string): Promise<StatesResponse> {
-    const response = await fetch(`${API_BASE_URL}/api/states`, {
-      method: 'GET',
-      headers: buildHeaders(sessionId),
-    });
-    return handleResponse<StatesResponse>(response);
+  async updateConfig(
+    sessionId: string,
+    config: UpdateConfigRequest,
+    options?: RequestOptions
+  ): Promise<UpdateConfigResponse> {
+    return requestJson(
+      { method: 'PATCH', path: '/api/session/config', sessionId, body: config },
+      UpdateConfigResponseSchema,
+      options
+    );
   },
 
-  async getTournaments(sessionId: string): Promise<TournamentsResponse> {
-    const response = await fetch(`${API_BASE_URL}/api/tournaments`, {
-      method: 'GET',
-      headers: buildHeaders(sessionId),
-    });
-    return handleResponse<TournamentsResponse>(response);
+  async getAirports(sessionId: string, options?: RequestOptions): Promise<AirportsResponse> {
+    return requestJson({ method: 'GET', path: '/api/airports', sessionId }, AirportsResponseSchema, options);
+  },
+
+  async getStates(sessionId: string, options?: RequestOptions): Promise<StatesResponse> {
+    return requestJson({ method: 'GET', path: '/api/states', sessionId }, StatesResponseSchema, options);
+  },
+
+  async getTournaments(sessionId: string, options?: RequestOptions): Promise<TournamentsResponse> {
+    return requestJson({ method: 'GET', path: '/api/tournaments', sessionId }, TournamentsResponseSchema, options);
   },
 
   async searchFlights(
     sessionId: string,
-    request: SearchFlightsRequest
+    request: SearchFlightsRequest,
+    options?: RequestOptions
   ): Promise<SearchFlightsResponse> {
-    const response = await fetch(`${API_BASE_URL}/api/flights/search`, {
-      method: 'POST',
-      headers: buildHeaders(sessionId),
-      body: JSON.stringify(request),
-    });
-    return handleResponse<SearchFlightsResponse>(response);
+    // A full search can touch every weekend bucket, so allow it plenty of time
+    return requestJson(
+      { method: 'POST', path: '/api/flights/search', sessionId, body: request },
+      SearchFlightsResponseSchema,
+      { timeoutMs: 600_000, ...options }
+    );
   },
 
   searchFlightsStream(
@@ -131,126 +322,189 @@ export const api = {
     callbacks: {
       onProgress: (event: SearchProgressEvent) => void;
       onComplete: (response: SearchFlightsResponse) => void;
-      onError: (error: string) => void;
+      onError: (error: ApiError) => void;
+      onReconnect?: (attempt: number) => void;
     }
   ): AbortController {
     const abortController = new AbortController();
-
-    fetch(`${API_BASE_URL}/api/flights/search/stream`, {
+    const spec: RequestSpec = {
       method: 'POST',
-      headers: buildHeaders(sessionId),
-      body: JSON.stringify(request),
-      signal: abortController.signal,
-    })
-      .then(async (response) => {
-        if (!response.ok) {
-          const errorData: ErrorResponse = await response.json().catch(() => ({
-            error: `HTTP ${response.status}: ${response.statusText}`,
-          }));
-          callbacks.onError(errorData.error);
-          return;
+      path: '/api/flights/search/stream',
+      sessionId,
+      body: request,
+    };
+    const endpoint = `${spec.method} ${spec.path}`;
+
+    // Planned searches already delivered; a reconnect asks the backend to skip them
+    const completedIndices = new Set<number>();
+    let retryMs = STREAM_RECONNECT_DELAY_MS;
+    let reconnectAttempts = 0;
+    let finished = false;
+
+    const handleEvent = (event: ServerSentEvent) => {
+      if (finished) return;
+      const eventEndpoint = `${endpoint} (${event.type} event)`;
+
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(event.data);
+      } catch {
+        throw new ApiError(0, { error: `Malformed JSON in ${eventEndpoint}` }, 'invalid-response', endpoint);
+      }
+
+      if (event.type === 'progress') {
+        const progress = validatePayload(SearchProgressEventSchema, parsed, eventEndpoint);
+        if (progress.index !== undefined) completedIndices.add(progress.index);
+        reconnectAttempts = 0;
+        callbacks.onProgress(progress);
+      } else if (event.type === 'complete') {
+        const complete = validatePayload(SearchFlightsResponseSchema, parsed, eventEndpoint);
+        finished = true;
+        callbacks.onComplete(complete);
+      } else if (event.type === 'error') {
+        const { error } = validatePayload(ErrorResponseSchema, parsed, eventEndpoint);
+        finished = true;
+        callbacks.onError(new ApiError(500, { error: error || 'Unknown error' }, 'server', endpoint));
+      }
+    };
+
+    // One connection; resolves when the server closes the stream
+    const connect = async (): Promise<void> => {
+      // Searches the request skipped from the start stay skipped
+      const body: SearchFlightsRequest = completedIndices.size > 0
+        ? { ...request, skipIndices: [...new Set([...(request.skipIndices ?? []), ...completedIndices])] }
+        : request;
+
+      const response = await transport(`${API_BASE_URL}${spec.path}`, {
+        method: spec.method,
+        headers: buildHeaders(sessionId),
+        body: JSON.stringify(body),
+        signal: abortController.signal,
+      });
+      if (!response.ok) {
+        throw await errorFromResponse(response, spec);
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        throw new ApiError(0, { error: 'No response body' }, 'network', endpoint);
+      }
+
+      const decoder = new TextDecoder();
+      const parser = new EventStreamParser({
+        onEvent: handleEvent,
+        onRetry: (ms) => {
+          retryMs = ms;
+        },
+      });
+
+      while (!finished) {
+        const { done, value } = await reader.read();
+        if (done) {
+          parser.feed(decoder.decode());
+          parser.end();
+          break;
         }
+        parser.feed(decoder.decode(value, { stream: true }));
+      }
+    };
 
-        const reader = response.body?.getReader();
-        if (!reader) {
-          callbacks.onError('No response body');
-          return;
+    const run = async (): Promise<void> => {
+      while (!finished) {
+        let failure: ApiError;
+        try {
+          await connect();
+          if (finished) return;
+          failure = new ApiError(0, { error: 'Search stream closed before completing' }, 'network', endpoint);
+        } catch (err) {
+          failure = err instanceof ApiError ? err : errorFromException(err, spec, false);
         }
 
-        const decoder = new TextDecoder();
-        let buffer = '';
-        let currentEventType = '';
-
-        const processLine = (line: string) => {
-          if (line.startsWith('event: ')) {
-            currentEventType = line.slice(7).trim();
-          } else if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            try {
-              const parsed = JSON.parse(data);
-              if (currentEventType === 'progress') {
-                callbacks.onProgress(parsed as SearchProgressEvent);
-              } else if (currentEventType === 'complete') {
-                callbacks.onComplete(parsed as SearchFlightsResponse);
-              } else if (currentEventType === 'error') {
-                callbacks.onError(parsed.error || 'Unknown error');
-              }
-            } catch {
-              // Ignore parse errors for incomplete data
-            }
-          } else if (line === '') {
-            // Empty line marks end of event, reset for next event
-            currentEventType = '';
-          }
-        };
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) {
-            // Process any remaining buffer
-            if (buffer.trim()) {
-              const lines = buffer.split('\n');
-              for (const line of lines) {
-                processLine(line);
-              }
-            }
-            break;
-          }
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || '';
-
-          for (const line of lines) {
-            processLine(line);
-          }
+        if (failure.isAborted || finished) return;
+        if (!failure.isRetryable || reconnectAttempts >= STREAM_MAX_RECONNECTS) {
+          finished = true;
+          abortController.abort();
+          callbacks.onError(failure);
+          return;
         }
-      })
-      .catch((err) => {
-        if (err.name !== 'AbortError') {
-          callbacks.onError(err.message || 'Stream failed');
+
+        reconnectAttempts++;
+        callbacks.onReconnect?.(reconnectAttempts);
+        try {
+          await delay(retryMs, abortController.signal);
+        } catch {
+          return;
         }
-      });
+      }
+    };
+
+    run();
 
     return abortController;
   },
 
   async getQuotes(
     sessionId: string,
-    params?: QuotesQueryParams
+    params?: QuotesQueryParams,
+    options?: RequestOptions
   ): Promise<QuotesResponse> {
-    const url = new URL(`${API_BASE_URL}/api/flights/quotes`, window.location.origin);
-    
+    const searchParams = new URLSearchParams();
+
     if (params) {
-      if (params.airport) url.searchParams.set('airport', params.airport);
-      if (params.state) url.searchParams.set('state', params.state);
-      if (params.maxPrice !== undefined) url.searchParams.set('maxPrice', params.maxPrice.toString());
-      if (params.search) url.searchParams.set('search', params.search);
-      if (params.friendsOnly !== undefined) url.searchParams.set('friendsOnly', params.friendsOnly.toString());
-      if (params.limit !== undefined) url.searchParams.set('limit', params.limit.toString());
+      if (params.airport) searchParams.set('airport', params.airport);
+      if (params.state) searchParams.set('state', params.state);
+      if (params.maxPrice !== undefined) searchParams.set('maxPrice', params.maxPrice.toString());
+      if (params.search) searchParams.set('search', params.search);
+      if (params.friendsOnly !== undefined) searchParams.set('friendsOnly', params.friendsOnly.toString());
+      if (params.limit !== undefined) searchParams.set('limit', params.limit.toString());
     }
 
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: buildHeaders(sessionId),
-    });
-    return handleResponse<QuotesResponse>(response);
+    const query = searchParams.toString();
+    return requestJson(
+      { method: 'GET', path: `/api/flights/quotes${query ? `?${query}` : ''}`, sessionId },
+      QuotesResponseSchema,
+      options
+    );
   },
 
-  async getBuckets(sessionId: string): Promise<BucketsResponse> {
-    const response = await fetch(`${API_BASE_URL}/api/buckets`, {
-      method: 'GET',
-      headers: buildHeaders(sessionId),
-    });
-    return handleResponse<BucketsResponse>(response);
+  async getBuckets(sessionId: string, options?: RequestOptions): Promise<BucketsResponse> {
+    return requestJson({ method: 'GET', path: '/api/buckets', sessionId }, BucketsResponseSchema, options);
   },
 
-  async getApiKeyUsage(sessionId: string): Promise<ApiKeyUsageResponse> {
-    const response = await fetch(`${API_BASE_URL}/api/keys/usage`, {
-      method: 'GET',
-      headers: buildHeaders(sessionId),
-    });
-    return handleResponse<ApiKeyUsageResponse>(response);
+  async getApiKeyUsage(sessionId: string, options?: RequestOptions): Promise<ApiKeyUsageResponse> {
+    return requestJson({ method: 'GET', path: '/api/keys/usage', sessionId }, ApiKeyUsageResponseSchema, options);
+  },
+
+  // No session needed; each key's account is looked up, so allow for slow SerpAPI responses
+  async validateApiKeys(apiKeys: string[], options?: RequestOptions): Promise<ApiKeyUsageResponse> {
+    return requestJson(
+      { method: 'POST', path: '/api/keys/validate', body: { apiKeys } },
+      ApiKeyUsageResponseSchema,
+      { timeoutMs: 60_000, ...options }
+    );
+  },
+
+  async addApiKeys(sessionId: string, apiKeys: string[], options?: RequestOptions): Promise<ApiKeysUpdatedResponse> {
+    return requestJson(
+      { method: 'POST', path: '/api/keys', sessionId, body: { apiKeys } },
+      ApiKeysUpdatedResponseSchema,
+      options
+    );
+  },
+
+  // `index` is the key's position in getApiKeyUsage
+  // `maskedKey` must match the key at `index`; the server answers 409 if the list has changed
+  async removeApiKey(
+    sessionId: string,
+    index: number,
+    maskedKey: string,
+    options?: RequestOptions
+  ): Promise<ApiKeysUpdatedResponse> {
+    return requestJson(
+      { method: 'DELETE', path: `/api/keys/${index}?maskedKey=${encodeURIComponent(maskedKey)}`, sessionId },
+      ApiKeysUpdatedResponseSchema,
+      options
+    );
   },
 };
 
@@ -0,0 +1,170 @@
+// SerpAPI key helpers: bulk import, validation status and a usage forecast built from
+// thisMonthUsage snapshots recorded each time GET /api/keys/usage is refreshed.
+import type { ApiKeyUsage } from '@/types/api';
+
+const SNAPSHOTS_KEY = 'api-key-usage-snapshots';
+// Enough history for a weekly rate without letting localStorage grow unbounded
+const MAX_SNAPSHOTS = 500;
+const SNAPSHOT_WINDOW_MS = 14 * 24 * 60 * 60 * 1000;
+// Snapshots closer together than this replace each other
+const MIN_SNAPSHOT_SPACING_MS = 5 * 60 * 1000;
+// A rate over less than this is too noisy to project from
+const MIN_FORECAST_SPAN_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Same masking as the backend (ApiRoutes.maskKey), so pasted keys can be matched to usage rows
+export function maskKey(key: string): string {
+  return key.length <= 8 ? '****' : `${key.slice(0, 4)}...${key.slice(-4)}`;
+}
+
+// Keys from pasted text or a file: one per line, or separated by commas, semicolons or spaces.
+// Lines starting with # are comments; surrounding quotes (as in CSV or JSON) are stripped.
+export function parseKeyList(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => !line.trim().startsWith('#'))
+    .flatMap((line) => line.split(/[\s,;]+/))
+    .map((token) => token.replace(/^["'[]+|["'\]]+$/g, '').trim())
+    .filter((token) => token.length > 0);
+}
+
+export interface KeyMerge {
+  keys: string[];
+  added: number;
+  duplicates: number;
+}
+
+// Append incoming keys to the existing list, dropping blanks and anything already present
+export function mergeKeys(existing: string[], incoming: string[]): KeyMerge {
+  const keys = existing.map((k) => k.trim()).filter(Boolean);
+  const seen = new Set(keys);
+  let added = 0;
+  let duplicates = 0;
+  for (const key of incoming.map((k) => k.trim()).filter(Boolean)) {
+    if (seen.has(key)) {
+      duplicates++;
+    } else {
+      seen.add(key);
+      keys.push(key);
+      added++;
+    }
+  }
+  return { keys, added, duplicates };
+}
+
+export type KeyStatus = 'ok' | 'low' | 'empty' | 'invalid';
+
+export function keyStatus(usage: ApiKeyUsage): KeyStatus {
+  if (usage.error) return 'invalid';
+  const left = usage.totalSearchesLeft ?? 0;
+  if (left <= 0) return 'empty';
+  return left <= 10 ? 'low' : 'ok';
+}
+
+export function describeKey(usage: ApiKeyUsage): string {
+  if (usage.error) return usage.error;
+  const plan = usage.planName ?? 'Unknown plan';
+  return `${plan} · ${usage.totalSearchesLeft ?? 0} searches left`;
+}
+
+export interface UsageSnapshot {
+  // ISO timestamp
+  at: string;
+  // thisMonthUsage per masked key
+  usage: Record<string, number>;
+}
+
+export function snapshotFromUsage(keys: ApiKeyUsage[], now = new Date()): UsageSnapshot | null {
+  const usage: Record<string, number> = {};
+  for (const key of keys) {
+    if (!key.error && key.thisMonthUsage !== null) usage[key.maskedKey] = key.thisMonthUsage;
+  }
+  return Object.keys(usage).length > 0 ? { at: now.toISOString(), usage } : null;
+}
+
+export function loadUsageSnapshots(): UsageSnapshot[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SNAPSHOTS_KEY) ?? '[]') as unknown;
+    return Array.isArray(parsed) ? (parsed as UsageSnapshot[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveUsageSnapshots(snapshots: UsageSnapshot[]): void {
+  localStorage.setItem(SNAPSHOTS_KEY, JSON.stringify(snapshots));
+}
+
+// Adds a snapshot, replacing one taken moments ago and dropping those outside the window
+export function appendSnapshot(snapshots: UsageSnapshot[], snapshot: UsageSnapshot): UsageSnapshot[] {
+  const at = new Date(snapshot.at).getTime();
+  const kept = snapshots.filter((s) => {
+    const age = at - new Date(s.at).getTime();
+    return age >= MIN_SNAPSHOT_SPACING_MS && age < SNAPSHOT_WINDOW_MS;
+  });
+  return [...kept, snapshot].slice(-MAX_SNAPSHOTS);
+}
+
+export interface UsageForecast {
+  // Searches per day across the pool, from keys present in both the first and last snapshot
+  searchesPerDay: number;
+  remaining: number;
+  // When the pool runs out at this rate; null when nothing is being used
+  runsOutAt: Date | null;
+  // Plan allowances reset at the start of each month, so running out after that is not a concern
+  outlastsMonth: boolean;
+  // How much history the rate is based on
+  spanDays: number;
+}
+
+function startOfNextMonth(now: Date): Date {
+  return new Date(now.getFullYear(), now.getMonth() + 1, 1);
+}
+
+export function forecastUsage(
+  snapshots: UsageSnapshot[],
+  keys: ApiKeyUsage[],
+  now = new Date()
+): UsageForecast | null {
+  const latest = snapshots[snapshots.length - 1];
+  if (!latest) return null;
+
+  // thisMonthUsage restarts each month; only compare snapshots since the last reset
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+  const first = snapshots.find((s) => {
+    const at = new Date(s.at).getTime();
+    return at >= monthStart && Object.keys(s.usage).some((k) => k in latest.usage);
+  });
+  if (!first || first === latest) return null;
+
+  const spanMs = new Date(latest.at).getTime() - new Date(first.at).getTime();
+  if (spanMs < MIN_FORECAST_SPAN_MS) return null;
+
+  let used = 0;
+  for (const [key, count] of Object.entries(latest.usage)) {
+    const before = first.usage[key];
+    if (before !== undefined && count >= before) used += count - before;
+  }
+
+  const searchesPerDay = (used / spanMs) * DAY_MS;
+  const remaining = keys.reduce((sum, k) => sum + (k.error ? 0 : k.totalSearchesLeft ?? 0), 0);
+  const runsOutAt = searchesPerDay > 0 ? new Date(now.getTime() + (remaining / searchesPerDay) * DAY_MS) : null;
+
+  return {
+    searchesPerDay,
+    remaining,
+    runsOutAt,
+    outlastsMonth: runsOutAt === null || runsOutAt >= startOfNextMonth(now),
+    spanDays: spanMs / DAY_MS,
+  };
+}
+
+export function describeForecast(forecast: UsageForecast): string {
+  const rate = forecast.searchesPerDay < 10
+    ? forecast.searchesPerDay.toFixed(1)
+    : Math.round(forecast.searchesPerDay).toString();
+  if (forecast.runsOutAt === null) return 'No searches used recently';
+  if (forecast.outlastsMonth) return `~${rate} searches/day, enough until the monthly reset`;
+  const date = forecast.runsOutAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return `~${rate} searches/day, runs out around ${date}`;
+}
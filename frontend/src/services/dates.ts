@@ -0,0 +1,8 @@
+// Calendar dates as the API sends them (YYYY-MM-DD). Arithmetic is done in UTC so a daylight
+// saving change never moves a date.
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
@@ -0,0 +1,118 @@
+// Incremental parser for the text/event-stream format
+// (https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation).
+// EventSource only supports GET, so the POST search stream is read with fetch and parsed here.
+
+export interface ServerSentEvent {
+  type: string;
+  data: string;
+  lastEventId: string;
+}
+
+export interface EventStreamHandlers {
+  onEvent: (event: ServerSentEvent) => void;
+  onRetry?: (retryMs: number) => void;
+}
+
+export class EventStreamParser {
+  private buffer = '';
+  private eventType = '';
+  private dataLines: string[] = [];
+  private lastEventIdBuffer = '';
+  private pendingCarriageReturn = false;
+  private isFirstChunk = true;
+
+  constructor(private handlers: EventStreamHandlers) {}
+
+  // The last event ID seen so far, as the spec's "last event ID buffer"
+  get lastEventId(): string {
+    return this.lastEventIdBuffer;
+  }
+
+  feed(chunk: string): void {
+    let text = chunk;
+    if (this.isFirstChunk) {
+      this.isFirstChunk = false;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+    // A CR ending the previous chunk may be the first half of a CRLF pair
+    if (this.pendingCarriageReturn) {
+      this.pendingCarriageReturn = false;
+      if (text.startsWith('\n')) text = text.slice(1);
+    }
+
+    this.buffer += text;
+
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const ch = this.buffer[i];
+      if (ch !== '\n' && ch !== '\r') continue;
+
+      this.processLine(this.buffer.slice(start, i));
+      if (ch === '\r') {
+        if (i + 1 === this.buffer.length) {
+          this.pendingCarriageReturn = true;
+        } else if (this.buffer[i + 1] === '\n') {
+          i++;
+        }
+      }
+      start = i + 1;
+    }
+    this.buffer = this.buffer.slice(start);
+  }
+
+  // Called when the stream closes; an unterminated trailing event is discarded per spec
+  end(): void {
+    this.buffer = '';
+    this.resetEvent();
+  }
+
+  private processLine(line: string): void {
+    if (line === '') {
+      this.dispatch();
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventIdBuffer = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.handlers.onRetry?.(Number(value));
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  }
+
+  private dispatch(): void {
+    if (this.dataLines.length === 0) {
+      this.resetEvent();
+      return;
+    }
+    const event: ServerSentEvent = {
+      type: this.eventType || 'message',
+      data: this.dataLines.join('\n'),
+      lastEventId: this.lastEventIdBuffer,
+    };
+    this.resetEvent();
+    this.handlers.onEvent(event);
+  }
+
+  private resetEvent(): void {
+    this.eventType = '';
+    this.dataLines = [];
+  }
+}
@@ -0,0 +1,234 @@
+// File exports for sharing quotes and tournament schedules outside the app:
+// CSV (opens in Excel), JSON, and iCalendar (RFC 5545) for club calendars.
+import { addDays } from '@/services/dates';
+import { parseFlightTime } from '@/services/itinerary';
+import type { QuoteRow } from '@/services/quoteQuery';
+import type { FlightQuote, Tournament, WeekendBucket } from '@/types/api';
+
+export type ExportFormat = 'csv' | 'json' | 'ics';
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+  ics: 'text/calendar;charset=utf-8',
+};
+
+function csvCell(value: string | number | boolean | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// CRLF and a BOM so Excel opens it as UTF-8 with the right columns
+function toCsv(header: string[], rows: (string | number | boolean | null | undefined)[][]): string {
+  const lines = [header, ...rows].map((row) => row.map(csvCell).join(','));
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+function location(t: Tournament | undefined): string {
+  return t ? `${t.city}, ${t.stateOrRegion}` : '';
+}
+
+export function quotesToCsv(rows: QuoteRow[]): string {
+  return toCsv(
+    [
+      'Weekend', 'Airport', 'Tournaments', 'Location', 'Price (USD)', 'Airline', 'Origin',
+      'Departure Date', 'Return Date', 'Departs', 'Arrives', 'Friend Airport', 'From Cache',
+      'Cache Age (s)', 'Google Flights',
+    ],
+    rows.map((row) => [
+      row.bucket.key.weekendStart,
+      row.bucket.key.airport,
+      row.bucket.tournaments.map((t) => t.name).join('; '),
+      location(row.bucket.tournaments[0]),
+      row.quote.priceUsd,
+      row.quote.airline,
+      row.quote.origin,
+      row.quote.departureDate,
+      row.quote.returnDate,
+      row.quote.outboundDepartureTime,
+      row.quote.outboundArrivalTime,
+      row.isFriendAirport,
+      row.cacheInfo?.fromCache,
+      row.cacheInfo?.cacheAgeSeconds,
+      row.quote.googleFlightsUrl,
+    ])
+  );
+}
+
+export function bucketsToCsv(buckets: WeekendBucket[]): string {
+  return toCsv(
+    ['Weekend', 'Airport', 'Tournament', 'City', 'State', 'Start Date', 'End Date', 'Dates (as listed)'],
+    buckets.flatMap((b) =>
+      b.tournaments.map((t) => [
+        b.key.weekendStart, b.key.airport, t.name, t.city, t.stateOrRegion, t.startDate, t.endDate, t.rawDateText,
+      ])
+    )
+  );
+}
+
+export function quotesToJson(rows: QuoteRow[]): string {
+  return JSON.stringify(
+    rows.map((row) => ({
+      weekend: row.bucket.key,
+      tournaments: row.bucket.tournaments,
+      quote: row.quote,
+      isFriendAirport: row.isFriendAirport,
+      cacheInfo: row.cacheInfo ?? null,
+    })),
+    null,
+    2
+  );
+}
+
+export function bucketsToJson(buckets: WeekendBucket[]): string {
+  return JSON.stringify(buckets, null, 2);
+}
+
+interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  // YYYY-MM-DD for all-day events (end exclusive), or naive local "YYYY-MM-DDTHH:MM"
+  start: string;
+  end: string;
+}
+
+function icsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines are folded at 75 octets; continuation lines start with a space
+function foldLine(line: string): string {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const ch of line) {
+    const chSize = new TextEncoder().encode(ch).length;
+    if (size + chSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += ch;
+    size += chSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function icsDateProperty(name: string, value: string): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return `${name};VALUE=DATE:${value.replace(/-/g, '')}`;
+  // Floating local time: flights and tournaments are in their own local time zones
+  return `${name}:${value.replace(/[-:]/g, '')}00`;
+}
+
+function uidPart(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function tournamentEvent(t: Tournament, airport: string): CalendarEvent {
+  return {
+    uid: `tournament-${uidPart(t.name)}-${t.startDate}-${airport.toLowerCase()}@tourneyflights`,
+    summary: t.name,
+    description: t.rawDateText,
+    location: `${t.city}, ${t.stateOrRegion}`,
+    start: t.startDate,
+    end: addDays(t.endDate, 1),
+  };
+}
+
+function localDateTime(time: string, fallbackDate: string): string | null {
+  const minutes = parseFlightTime(time, fallbackDate);
+  return minutes === null ? null : new Date(minutes * 60000).toISOString().slice(0, 16);
+}
+
+function flightEvents(quote: FlightQuote): CalendarEvent[] {
+  const id = `${quote.origin}-${quote.destination}-${quote.departureDate}-${quote.returnDate}-${uidPart(quote.airline)}`;
+  const details = [`$${quote.priceUsd.toFixed(0)} round trip`, quote.googleFlightsUrl].filter(Boolean).join('\n');
+  const departs = localDateTime(quote.outboundDepartureTime, quote.departureDate);
+  const arrives = localDateTime(quote.outboundArrivalTime, quote.departureDate);
+
+  return [
+    {
+      uid: `outbound-${id}@tourneyflights`,
+      summary: `Flight ${quote.origin} → ${quote.destination} (${quote.airline})`,
+      description: details,
+      location: quote.origin,
+      // Without parseable times the flight is shown as an all-day event
+      start: departs && arrives ? departs : quote.departureDate,
+      end: departs && arrives ? arrives : addDays(quote.departureDate, 1),
+    },
+    {
+      // Return flight times are not part of the quote
+      uid: `return-${id}@tourneyflights`,
+      summary: `Return flight ${quote.destination} → ${quote.origin}`,
+      description: details,
+      location: quote.destination,
+      start: quote.returnDate,
+      end: addDays(quote.returnDate, 1),
+    },
+  ];
+}
+
+function toIcs(events: CalendarEvent[], now = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//TourneyFlights//Export//EN', 'CALSCALE:GREGORIAN'];
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      icsDateProperty('DTSTART', event.start),
+      icsDateProperty('DTEND', event.end),
+      `SUMMARY:${icsText(event.summary)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${icsText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${icsText(event.location)}`);
+    lines.push('END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+// Each tournament once, plus the outbound and return flight of every quote
+export function quotesToIcs(rows: QuoteRow[]): string {
+  const events = new Map<string, CalendarEvent>();
+  for (const row of rows) {
+    for (const t of row.bucket.tournaments) {
+      const event = tournamentEvent(t, row.bucket.key.airport);
+      events.set(event.uid, event);
+    }
+    for (const event of flightEvents(row.quote)) events.set(event.uid, event);
+  }
+  return toIcs([...events.values()]);
+}
+
+export function bucketsToIcs(buckets: WeekendBucket[]): string {
+  const events = new Map<string, CalendarEvent>();
+  for (const b of buckets) {
+    for (const t of b.tournaments) {
+      const event = tournamentEvent(t, b.key.airport);
+      events.set(event.uid, event);
+    }
+  }
+  return toIcs([...events.values()]);
+}
+
+export function exportFilename(name: string, format: ExportFormat, now = new Date()): string {
+  return `tourneyflights-${name}-${now.toISOString().slice(0, 10)}.${format}`;
+}
+
+export function downloadFile(filename: string, content: string, format: ExportFormat): void {
+  const url = URL.createObjectURL(new Blob([content], { type: MIME_TYPES[format] }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,92 @@
+// Fare watches: a weekend the user wants re-checked until its fare drops under a budget.
+// Watches live with the persisted session; the scheduler lives in stores/fareAlerts.ts.
+import type { FlightSearchResult, WeekendKey } from '@/types/api';
+
+// How often each watch is re-checked
+export const FARE_WATCH_INTERVAL_MS = 30 * 60 * 1000;
+// Searches left untouched by background checks, so a manual search can still run
+export const FARE_WATCH_QUOTA_RESERVE = 5;
+
+export interface FareWatch {
+  id: string;
+  key: WeekendKey;
+  maxPriceUsd: number;
+  createdAt: string;
+  lastCheckedAt?: string;
+  // Cheapest fare at the last check; null when the check found no flights
+  lastPriceUsd?: number | null;
+  lastError?: string;
+  // Fare that last raised an alert; cleared once the fare goes back over budget
+  alertedPriceUsd?: number;
+}
+
+export interface FareAlert {
+  id: string;
+  watchId: string;
+  key: WeekendKey;
+  priceUsd: number;
+  maxPriceUsd: number;
+  raisedAt: string;
+}
+
+// One watch per weekend, so the id is the weekend key
+export function fareWatchId(key: WeekendKey): string {
+  return `${key.airport}|${key.weekendStart}`;
+}
+
+export function createFareWatch(key: WeekendKey, maxPriceUsd: number, now = new Date()): FareWatch {
+  return {
+    id: fareWatchId(key),
+    key: { ...key },
+    maxPriceUsd,
+    createdAt: now.toISOString(),
+  };
+}
+
+export function isFareWatchDue(watch: FareWatch, now = new Date()): boolean {
+  if (!watch.lastCheckedAt) return true;
+  return now.getTime() - Date.parse(watch.lastCheckedAt) >= FARE_WATCH_INTERVAL_MS;
+}
+
+export function cheapestFare(results: FlightSearchResult[]): number | null {
+  let cheapest: number | null = null;
+  for (const result of results) {
+    for (const quote of result.quotes) {
+      if (cheapest === null || quote.priceUsd < cheapest) cheapest = quote.priceUsd;
+    }
+  }
+  return cheapest;
+}
+
+// Alert when the fare is within budget and lower than the fare we already alerted on
+export function shouldAlert(watch: FareWatch, priceUsd: number | null): priceUsd is number {
+  if (priceUsd === null || priceUsd > watch.maxPriceUsd) return false;
+  return watch.alertedPriceUsd === undefined || priceUsd < watch.alertedPriceUsd;
+}
+
+export function describeWeekend(key: WeekendKey): string {
+  const date = new Date(key.weekendStart);
+  const label = isNaN(date.getTime())
+    ? key.weekendStart
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return `${key.airport} · ${label}`;
+}
+
+export function browserNotificationsSupported(): boolean {
+  return typeof Notification !== 'undefined';
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermission> {
+  if (!browserNotificationsSupported()) return 'denied';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+}
+
+// Silently skipped when the browser lacks support or permission was not granted
+export function showBrowserNotification(alert: FareAlert): void {
+  if (!browserNotificationsSupported() || Notification.permission !== 'granted') return;
+  new Notification(`Fare drop: ${describeWeekend(alert.key)}`, {
+    body: `Now $${alert.priceUsd.toFixed(0)}, under your $${alert.maxPriceUsd.toFixed(0)} budget`,
+    tag: alert.watchId,
+  });
+}
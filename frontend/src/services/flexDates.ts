@@ -0,0 +1,109 @@
+// Flexible dates: every departure/return combination within ±N days of a weekend's
+// default trip, each one a single SerpAPI search for a fixed route and dates.
+import { addDays } from '@/services/dates';
+import { CACHE_TTL_MS } from '@/services/searchPlanner';
+import type { PlannedSearch } from '@/services/searchPlanner';
+import type { FlightSearchResult, WeekendQuote } from '@/types/api';
+
+export const FLEX_DAYS_RANGE = { min: 1, max: 3 };
+
+export interface FlexCombo {
+  departureDate: string;
+  returnDate: string;
+  isDefault: boolean;
+}
+
+// A search result and when this client received it
+export interface FlexEntry {
+  result: FlightSearchResult;
+  receivedAt: number;
+}
+
+export interface FlexCell extends FlexCombo {
+  entry: FlexEntry | null;
+  cheapest: number | null;
+}
+
+export interface FlexGrid {
+  departures: string[];
+  returns: string[];
+  cells: Map<string, FlexCell>;
+  cheapest: number | null;
+}
+
+export function flexKey(origin: string, destination: string, departureDate: string, returnDate: string): string {
+  return `${origin}|${destination}|${departureDate}|${returnDate}`;
+}
+
+export function comboKey(departureDate: string, returnDate: string): string {
+  return `${departureDate}|${returnDate}`;
+}
+
+// Combinations around the default trip; a return must be after the departure
+export function flexCombos(weekendStart: string, tripDays: number, flexDays: number): FlexCombo[] {
+  const defaultReturn = addDays(weekendStart, tripDays);
+  const combos: FlexCombo[] = [];
+  for (let d = -flexDays; d <= flexDays; d++) {
+    const departureDate = addDays(weekendStart, d);
+    for (let r = -flexDays; r <= flexDays; r++) {
+      const returnDate = addDays(defaultReturn, r);
+      if (returnDate <= departureDate) continue;
+      combos.push({ departureDate, returnDate, isDefault: d === 0 && r === 0 });
+    }
+  }
+  return combos;
+}
+
+// Usable without a new search while the backend would still serve it from its cache
+export function isEntryFresh(entry: FlexEntry, now = Date.now()): boolean {
+  const cachedAt = entry.result.cacheInfo.fromCache && entry.result.cacheInfo.cachedAt
+    ? Date.parse(entry.result.cacheInfo.cachedAt)
+    : entry.receivedAt;
+  return Number.isFinite(cachedAt) && now - cachedAt < CACHE_TTL_MS;
+}
+
+// The session's weekend row doubles as the default combination's result
+export function entryFromWeekendQuote(wq: WeekendQuote, origin: string, now = Date.now()): FlexEntry | null {
+  const sample = wq.quotes[0];
+  if (!sample || sample.origin !== origin || !wq.cacheInfo) return null;
+  return {
+    result: {
+      origin,
+      destination: wq.bucket.key.airport,
+      departureDate: sample.departureDate,
+      returnDate: sample.returnDate,
+      quotes: wq.quotes,
+      cacheInfo: wq.cacheInfo,
+    },
+    receivedAt: now,
+  };
+}
+
+// Searches the flex run would make, in the shape the quota estimate expects
+export function flexPlan(destination: string, combos: FlexCombo[], isCached: (combo: FlexCombo) => boolean): PlannedSearch[] {
+  return combos.map((combo) => ({
+    destination,
+    departureDate: combo.departureDate,
+    returnDate: combo.returnDate,
+    isFriendAirport: false,
+    fromCache: isCached(combo),
+  }));
+}
+
+export function buildFlexGrid(combos: FlexCombo[], lookup: (combo: FlexCombo) => FlexEntry | null): FlexGrid {
+  const departures = [...new Set(combos.map((c) => c.departureDate))].sort();
+  const returns = [...new Set(combos.map((c) => c.returnDate))].sort();
+  const cells = new Map<string, FlexCell>();
+  let cheapest: number | null = null;
+
+  for (const combo of combos) {
+    const entry = lookup(combo);
+    const fare = entry?.result.quotes.reduce<number | null>(
+      (min, q) => (min === null || q.priceUsd < min ? q.priceUsd : min),
+      null
+    ) ?? null;
+    if (fare !== null && (cheapest === null || fare < cheapest)) cheapest = fare;
+    cells.set(comboKey(combo.departureDate, combo.returnDate), { ...combo, entry, cheapest: fare });
+  }
+  return { departures, returns, cells, cheapest };
+}
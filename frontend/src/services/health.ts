@@ -0,0 +1,102 @@
+// Backend reachability and session lifetime. GET /api/health needs no session, so it is polled
+// on a slow timer while the backend answers and with backoff once it stops; sessions live a fixed
+// hour from creation (expiresAt), so the countdown is pure client-side arithmetic.
+import type { ApiError } from '@/services/api';
+import type { HealthResponse, SearchFlightsRequest, SessionConfig } from '@/types/api';
+import type { FareWatch } from '@/services/fareWatch';
+
+// unknown: not checked yet; degraded: reachable but slow, erroring or not reporting "ok"
+export type BackendStatus = 'unknown' | 'up' | 'degraded' | 'down';
+
+export interface HealthCheck {
+  status: BackendStatus;
+  checkedAt: string;
+  latencyMs: number | null;
+  activeSessions: number | null;
+  // Why the backend is not up, for the status popover
+  detail: string | null;
+}
+
+export const HEALTH_POLL_INTERVAL_MS = 30_000;
+const HEALTH_BACKOFF_BASE_MS = 5_000;
+const HEALTH_BACKOFF_MAX_MS = 120_000;
+// Answers slower than this count as degraded
+const DEGRADED_LATENCY_MS = 3_000;
+
+// Warn while this much of the session is left, and urge a renewal under the second threshold
+export const SESSION_WARNING_MS = 10 * 60 * 1000;
+export const SESSION_CRITICAL_MS = 2 * 60 * 1000;
+
+export type ExpiryLevel = 'ok' | 'warning' | 'critical' | 'expired';
+
+// expired: the session outlived its hour; backend-restarted: it vanished before then
+export type SessionLossReason = 'expired' | 'backend-restarted';
+
+// What is needed to put the user back where they were after losing a session
+export interface SessionRecovery {
+  reason: SessionLossReason;
+  // Raw keys are only held in memory, so a session resumed after a reload has none to reuse
+  apiKeys: string[];
+  config: SessionConfig;
+  watches: FareWatch[];
+  // The streamed search that was running when the session was lost
+  interruptedSearch: SearchFlightsRequest | null;
+  lostAt: string;
+}
+
+export function healthFromResponse(response: HealthResponse, latencyMs: number, now = new Date()): HealthCheck {
+  const slow = latencyMs > DEGRADED_LATENCY_MS;
+  const ok = response.status === 'ok';
+  return {
+    status: ok && !slow ? 'up' : 'degraded',
+    checkedAt: now.toISOString(),
+    latencyMs,
+    activeSessions: response.activeSessions,
+    detail: !ok ? `Reported status "${response.status}"` : slow ? `Slow response (${(latencyMs / 1000).toFixed(1)}s)` : null,
+  };
+}
+
+// A server error means the backend is reachable but failing; no answer at all means it is down
+export function healthFromError(error: ApiError, now = new Date()): HealthCheck {
+  return {
+    status: error.kind === 'server' || error.kind === 'invalid-response' ? 'degraded' : 'down',
+    checkedAt: now.toISOString(),
+    latencyMs: null,
+    activeSessions: null,
+    detail: error.message,
+  };
+}
+
+// Regular interval while up; doubling from 5s up to 2 minutes after consecutive failures
+export function nextHealthPollDelay(status: BackendStatus, failures: number): number {
+  if (status === 'up' || failures === 0) return HEALTH_POLL_INTERVAL_MS;
+  return Math.min(HEALTH_BACKOFF_BASE_MS * 2 ** (failures - 1), HEALTH_BACKOFF_MAX_MS);
+}
+
+export function sessionTimeLeft(expiresAt: string | undefined, now: number): number | null {
+  if (!expiresAt) return null;
+  const expires = Date.parse(expiresAt);
+  return isNaN(expires) ? null : expires - now;
+}
+
+export function expiryLevel(msLeft: number | null): ExpiryLevel {
+  if (msLeft === null || msLeft > SESSION_WARNING_MS) return 'ok';
+  if (msLeft <= 0) return 'expired';
+  return msLeft > SESSION_CRITICAL_MS ? 'warning' : 'critical';
+}
+
+// "47:05" under an hour, "1h 02m" above
+export function formatCountdown(msLeft: number): string {
+  const totalSeconds = Math.max(0, Math.floor(msLeft / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+export function describeLoss(reason: SessionLossReason): string {
+  return reason === 'backend-restarted'
+    ? 'The server restarted and your session was lost.'
+    : 'Your session has expired.';
+}
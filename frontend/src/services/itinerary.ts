@@ -0,0 +1,91 @@
+// Itinerary checks for the weekend detail drawer: does the outbound flight land in time
+// for the tournament? SerpAPI reports local airport times ("2025-03-14 15:10") and
+// tournaments only have a start date, so both are compared as naive local times.
+import type { FlightQuote, Tournament } from '@/types/api';
+
+// Tournaments list dates only; assume play starts at this local hour on the start date
+export const ASSUMED_START_HOUR = 8;
+// Arriving with less time than this before the assumed start is flagged as tight
+export const MIN_ARRIVAL_BUFFER_HOURS = 12;
+
+export type ArrivalStatus = 'ok' | 'tight' | 'late' | 'unknown';
+
+export interface ArrivalCheck {
+  status: ArrivalStatus;
+  // Hours between landing and the assumed start; negative when landing after it
+  bufferHours: number | null;
+  // The tournament the check was made against (the earliest to start)
+  tournament: Tournament | null;
+}
+
+export interface AirlineQuotes {
+  airline: string;
+  quotes: FlightQuote[];
+  cheapest: number;
+}
+
+// Minutes since the epoch for a naive local date/time, so time zones never shift it
+function naiveMinutes(date: string, hours: number, minutes: number): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) return null;
+  const [, y, m, d] = match;
+  return Date.UTC(Number(y), Number(m) - 1, Number(d), hours, minutes) / 60000;
+}
+
+// Accepts "YYYY-MM-DD HH:MM", or a bare "HH:MM" / "3:10 PM" on the fallback date
+export function parseFlightTime(time: string, fallbackDate: string): number | null {
+  const trimmed = time.trim();
+  const full = /^(\d{4}-\d{2}-\d{2})[ T](\d{1,2}):(\d{2})/.exec(trimmed);
+  if (full) return naiveMinutes(full[1]!, Number(full[2]), Number(full[3]));
+
+  const clock = /^(\d{1,2}):(\d{2})\s*(AM|PM)?$/i.exec(trimmed);
+  if (!clock) return null;
+  let hours = Number(clock[1]);
+  const meridiem = clock[3]?.toUpperCase();
+  if (meridiem === 'PM' && hours < 12) hours += 12;
+  if (meridiem === 'AM' && hours === 12) hours = 0;
+  return naiveMinutes(fallbackDate, hours, Number(clock[2]));
+}
+
+export function earliestTournament(tournaments: Tournament[]): Tournament | null {
+  return tournaments.reduce<Tournament | null>(
+    (earliest, t) => (earliest === null || t.startDate < earliest.startDate ? t : earliest),
+    null
+  );
+}
+
+export function checkArrival(quote: FlightQuote, tournaments: Tournament[]): ArrivalCheck {
+  const tournament = earliestTournament(tournaments);
+  const arrival = parseFlightTime(quote.outboundArrivalTime, quote.departureDate);
+  const start = tournament ? naiveMinutes(tournament.startDate, ASSUMED_START_HOUR, 0) : null;
+  if (arrival === null || start === null) {
+    return { status: 'unknown', bufferHours: null, tournament };
+  }
+
+  const bufferHours = (start - arrival) / 60;
+  const status: ArrivalStatus = bufferHours < 0 ? 'late' : bufferHours < MIN_ARRIVAL_BUFFER_HOURS ? 'tight' : 'ok';
+  return { status, bufferHours, tournament };
+}
+
+// Airlines ordered by their cheapest fare, quotes within each by price
+export function groupQuotesByAirline(quotes: FlightQuote[]): AirlineQuotes[] {
+  const groups = new Map<string, FlightQuote[]>();
+  for (const quote of quotes) {
+    const airline = quote.airline || 'Unknown airline';
+    const list = groups.get(airline) ?? [];
+    list.push(quote);
+    groups.set(airline, list);
+  }
+  return [...groups.entries()]
+    .map(([airline, list]) => {
+      const sorted = [...list].sort((a, b) => a.priceUsd - b.priceUsd);
+      return { airline, quotes: sorted, cheapest: sorted[0]!.priceUsd };
+    })
+    .sort((a, b) => a.cheapest - b.cheapest);
+}
+
+// "14:30" out of "2025-03-14 14:30"; other formats are shown as-is
+export function formatFlightTime(time: string): string {
+  const match = /^\d{4}-\d{2}-\d{2}[ T](\d{1,2}:\d{2})/.exec(time.trim());
+  return match ? match[1]! : time;
+}
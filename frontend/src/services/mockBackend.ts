@@ -0,0 +1,514 @@
+// In-browser stand-in for the Scala backend. It answers the same routes as ApiRoutes with
+// fixture data, so demo mode (and component tests) run the real api.ts client end to end
+// — timeouts, schema validation, SSE parsing and reconnects included — without a server or keys.
+import { CACHE_TTL_MS, planSearch } from '@/services/searchPlanner';
+import { setApiTransport } from '@/services/api';
+import { loadPersistedSession } from '@/services/sessionPersistence';
+import type { Transport } from '@/services/api';
+import type { PlannedSearch } from '@/services/searchPlanner';
+import {
+  demoBuckets,
+  demoQuotes,
+  demoTournaments,
+  DEMO_CONFIG,
+  DEMO_SEARCHES_PER_MONTH,
+  DEMO_STARTING_USAGE,
+} from '@/services/mockFixtures';
+import type {
+  ApiKeyUsage,
+  CacheInfo,
+  FlightSearchResult,
+  SearchFlightsRequest,
+  SearchProgressEvent,
+  SessionConfig,
+  Tournament,
+  WeekendBucket,
+  WeekendQuote,
+} from '@/types/api';
+
+// Same session lifetime as ApiRoutes (SESSION_TTL_SECONDS)
+const SESSION_TTL_MS = 60 * 60 * 1000;
+const SSE_RETRY_MS = 3000;
+
+const DEMO_STATE_KEY = 'demo-backend';
+
+export interface MockBackendOptions {
+  // Delay before each JSON response
+  latencyMs?: number;
+  // Delay per uncached search; cached searches take a fraction of it
+  searchDelayMs?: number;
+  // Where sessions survive reloads; null keeps them in memory only
+  storage?: Storage | null;
+  now?: () => Date;
+}
+
+interface CachedSearch {
+  cachedAt: string;
+  // Bumped by skipCache searches so prices move between checks
+  version: number;
+}
+
+interface MockSession {
+  sessionId: string;
+  apiKeys: string[];
+  config: Required<SessionConfig>;
+  createdAt: string;
+  // Weekend row ("AIRPORT|weekendStart") -> latest search for it, like SessionData.weekendQuotes
+  weekendRoutes: Record<string, { route: string; cacheInfo: CacheInfo }>;
+}
+
+interface MockState {
+  sessions: Record<string, MockSession>;
+  cache: Record<string, CachedSearch>;
+  usage: Record<string, number>;
+}
+
+export interface MockBackend {
+  fetch: Transport;
+  reset(): void;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function abortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError');
+}
+
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(abortError());
+      },
+      { once: true }
+    );
+  });
+}
+
+function maskKey(key: string): string {
+  return key.length <= 8 ? '****' : `${key.slice(0, 4)}...${key.slice(-4)}`;
+}
+
+function routeKey(origin: string, destination: string, departureDate: string, returnDate: string): string {
+  return `${origin}|${destination}|${departureDate}|${returnDate}`;
+}
+
+function addMonths(date: Date, months: number): Date {
+  const d = new Date(date);
+  d.setMonth(d.getMonth() + months);
+  return d;
+}
+
+function isoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export function createMockBackend(options: MockBackendOptions = {}): MockBackend {
+  const latencyMs = options.latencyMs ?? 150;
+  const searchDelayMs = options.searchDelayMs ?? 400;
+  const storage = options.storage === undefined ? localStorage : options.storage;
+  const now = options.now ?? (() => new Date());
+
+  const tournaments: Tournament[] = demoTournaments(now());
+  const allBuckets: WeekendBucket[] = demoBuckets(tournaments);
+
+  function emptyState(): MockState {
+    return { sessions: {}, cache: {}, usage: {} };
+  }
+
+  function loadState(): MockState {
+    const stored = storage?.getItem(DEMO_STATE_KEY);
+    if (!stored) return emptyState();
+    try {
+      return { ...emptyState(), ...(JSON.parse(stored) as MockState) };
+    } catch {
+      return emptyState();
+    }
+  }
+
+  let state = loadState();
+
+  function saveState(): void {
+    storage?.setItem(DEMO_STATE_KEY, JSON.stringify(state));
+  }
+
+  function expiresAt(session: MockSession): string {
+    return new Date(new Date(session.createdAt).getTime() + SESSION_TTL_MS).toISOString();
+  }
+
+  function requireSession(headers: Headers): MockSession {
+    const session = state.sessions[headers.get('X-Session-Id') ?? ''];
+    if (!session || new Date(expiresAt(session)).getTime() <= now().getTime()) {
+      throw new HttpError(401, 'Missing or invalid session. Call POST /api/session first with your API keys.');
+    }
+    return session;
+  }
+
+  // Like TournamentService.filterByDateRange and sortBuckets
+  function filteredBuckets(session: MockSession): WeekendBucket[] {
+    const today = isoDate(now());
+    const cutoff = isoDate(addMonths(now(), session.config.filterMonths));
+    return allBuckets
+      .filter((b) => b.key.weekendStart >= today && b.key.weekendStart <= cutoff)
+      .sort((a, b) => a.key.weekendStart.localeCompare(b.key.weekendStart) || a.key.airport.localeCompare(b.key.airport));
+  }
+
+  function weekendQuotes(session: MockSession): WeekendQuote[] {
+    const rows: WeekendQuote[] = [];
+    for (const [weekend, { route, cacheInfo }] of Object.entries(session.weekendRoutes)) {
+      const bucket = allBuckets.find((b) => `${b.key.airport}|${b.key.weekendStart}` === weekend);
+      const cached = state.cache[route];
+      if (!bucket || !cached) continue;
+      const [origin, destination, departureDate, returnDate] = route.split('|') as [string, string, string, string];
+      rows.push({
+        bucket,
+        quotes: demoQuotes(origin, destination, departureDate, returnDate, cached.version),
+        isFriendAirport: session.config.friendAirports.includes(destination),
+        cacheInfo,
+      });
+    }
+    return rows;
+  }
+
+  // Spend one search from the first key with searches left, as ApiKeyManager rotates keys
+  function spendSearch(session: MockSession): void {
+    const key = session.apiKeys.find((k) => (state.usage[k] ?? DEMO_STARTING_USAGE) < DEMO_SEARCHES_PER_MONTH);
+    if (!key) throw new HttpError(500, 'All API keys have run out of searches');
+    state.usage[key] = (state.usage[key] ?? DEMO_STARTING_USAGE) + 1;
+  }
+
+  // One round-trip search, served from the 24h cache unless skipCache is set. persist: false
+  // leaves the session's weekend rows alone, as the backend does.
+  function runSearch(
+    sessionId: string,
+    destination: string,
+    departureDate: string,
+    returnDate: string,
+    skipCache: boolean,
+    origin: string,
+    persist: boolean
+  ): FlightSearchResult {
+    // Looked up per search: another tab may have replaced the state while this search waited
+    const session = state.sessions[sessionId];
+    if (!session) throw new HttpError(401, 'Missing or invalid session. Call POST /api/session first with your API keys.');
+    const key = routeKey(origin, destination, departureDate, returnDate);
+    const cached = state.cache[key];
+    const ageMs = cached ? now().getTime() - new Date(cached.cachedAt).getTime() : Infinity;
+
+    let entry: CachedSearch;
+    let cacheInfo: CacheInfo;
+    if (!cached || skipCache || ageMs >= CACHE_TTL_MS) {
+      spendSearch(session);
+      entry = { cachedAt: now().toISOString(), version: cached ? cached.version + 1 : 0 };
+      state.cache[key] = entry;
+      cacheInfo = { fromCache: false, cacheAgeSeconds: null, cachedAt: entry.cachedAt };
+    } else {
+      entry = cached;
+      cacheInfo = { fromCache: true, cacheAgeSeconds: Math.round(ageMs / 1000), cachedAt: entry.cachedAt };
+    }
+
+    // Only weekends with tournaments are kept, as the backend matches results to buckets
+    if (persist && allBuckets.some((b) => b.key.airport === destination && b.key.weekendStart === departureDate)) {
+      session.weekendRoutes[`${destination}|${departureDate}`] = { route: key, cacheInfo };
+    }
+    saveState();
+
+    return {
+      origin,
+      destination,
+      departureDate,
+      returnDate,
+      quotes: demoQuotes(origin, destination, departureDate, returnDate, entry.version),
+      cacheInfo,
+    };
+  }
+
+  // planSearch mirrors ApiRoutes.plannedSearches, so the demo runs searches in the same order
+  function plannedSearches(session: MockSession, request: SearchFlightsRequest): PlannedSearch[] {
+    return planSearch({ buckets: filteredBuckets(session), request, config: session.config, quotes: [] }).searches;
+  }
+
+  function streamSearch(session: MockSession, request: SearchFlightsRequest, signal?: AbortSignal | null): Response {
+    const origin = request.originAirport ?? session.config.originAirport;
+    const planned = plannedSearches(session, request);
+    const skipped = new Set(request.skipIndices ?? []);
+    const encoder = new TextEncoder();
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+        const results: FlightSearchResult[] = [];
+        let current = planned.length - planned.filter((_, i) => !skipped.has(i)).length;
+
+        try {
+          send(`retry: ${SSE_RETRY_MS}\n\n`);
+          for (const [index, search] of planned.entries()) {
+            if (skipped.has(index)) continue;
+            const wasCached = state.cache[routeKey(origin, search.destination, search.departureDate, search.returnDate)];
+            await wait(wasCached && !request.skipCache ? searchDelayMs / 8 : searchDelayMs * (0.5 + Math.random()), signal);
+
+            const result = runSearch(
+              session.sessionId,
+              search.destination,
+              search.departureDate,
+              search.returnDate,
+              request.skipCache ?? false,
+              origin,
+              request.persist ?? true
+            );
+            results.push(result);
+            current++;
+            const progress: SearchProgressEvent = {
+              current,
+              total: planned.length,
+              destination: result.destination,
+              departureDate: result.departureDate,
+              fromCache: result.cacheInfo.fromCache,
+              priceUsd: result.quotes[0]?.priceUsd ?? null,
+              index,
+              result,
+            };
+            send(`event: progress\nid: ${current}\ndata: ${JSON.stringify(progress)}\n\n`);
+          }
+          const totalQuotes = results.reduce((sum, r) => sum + r.quotes.length, 0);
+          send(`event: complete\ndata: ${JSON.stringify({ results, totalQuotes })}\n\n`);
+          controller.close();
+        } catch (err) {
+          if (err instanceof DOMException && err.name === 'AbortError') {
+            controller.error(err);
+            return;
+          }
+          const message = err instanceof Error ? err.message : 'Search failed';
+          send(`event: error\ndata: ${JSON.stringify({ error: message })}\n\n`);
+          controller.close();
+        }
+      },
+    });
+
+    return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+  }
+
+  // Like FlightFilterService: filters apply to whole weekends, cheapest weekends first
+  function queryQuotes(session: MockSession, params: URLSearchParams): WeekendQuote[] {
+    let rows = weekendQuotes(session);
+    const airport = params.get('airport');
+    const stateParam = params.get('state');
+    const maxPrice = params.get('maxPrice');
+    const search = params.get('search')?.toLowerCase();
+    const limit = params.get('limit');
+
+    if (airport) rows = rows.filter((wq) => wq.bucket.key.airport.toLowerCase() === airport.toLowerCase());
+    if (stateParam) {
+      rows = rows.filter((wq) => wq.bucket.tournaments.some((t) => t.stateOrRegion.toLowerCase() === stateParam.toLowerCase()));
+    }
+    if (maxPrice) rows = rows.filter((wq) => wq.quotes.length > 0 && wq.quotes[0]!.priceUsd <= Number(maxPrice));
+    if (search) rows = rows.filter((wq) => wq.bucket.tournaments.some((t) => t.name.toLowerCase().includes(search)));
+
+    const cheapest = (wq: WeekendQuote) => wq.quotes[0]?.priceUsd ?? Number.MAX_SAFE_INTEGER;
+    rows.sort((a, b) => cheapest(a) - cheapest(b));
+    return limit ? rows.slice(0, Number(limit)) : rows;
+  }
+
+  function keyUsage(apiKeys: string[]): ApiKeyUsage[] {
+    return apiKeys.map((key) => {
+      const used = state.usage[key] ?? DEMO_STARTING_USAGE;
+      const left = Math.max(0, DEMO_SEARCHES_PER_MONTH - used);
+      return {
+        maskedKey: maskKey(key),
+        accountEmail: 'demo@tourneyflights.example',
+        planName: 'Demo',
+        searchesPerMonth: DEMO_SEARCHES_PER_MONTH,
+        thisMonthUsage: used,
+        planSearchesLeft: left,
+        extraCredits: 0,
+        totalSearchesLeft: left,
+        error: null,
+      };
+    });
+  }
+
+  async function handle(method: string, url: URL, headers: Headers, body: unknown, signal?: AbortSignal | null): Promise<Response> {
+    const route = `${method} ${url.pathname}`;
+
+    if (route === 'GET /api/health') {
+      return json({ status: 'ok', activeSessions: Object.keys(state.sessions).length });
+    }
+
+    if (route === 'POST /api/session') {
+      const request = body as { apiKeys?: string[]; config?: SessionConfig };
+      if (!request.apiKeys?.length) throw new HttpError(400, 'apiKeys list cannot be empty');
+      const session: MockSession = {
+        sessionId: crypto.randomUUID(),
+        apiKeys: request.apiKeys,
+        config: { ...DEMO_CONFIG, ...request.config },
+        createdAt: now().toISOString(),
+        weekendRoutes: {},
+      };
+      state.sessions[session.sessionId] = session;
+      saveState();
+      return json({
+        sessionId: session.sessionId,
+        config: session.config,
+        totalTournaments: tournaments.length,
+        totalBuckets: allBuckets.length,
+        message: 'Demo session created with sample data. No real searches are made.',
+      });
+    }
+
+    if (route === 'DELETE /api/session') {
+      const sessionId = headers.get('X-Session-Id');
+      if (!sessionId) throw new HttpError(400, 'Missing X-Session-Id header');
+      delete state.sessions[sessionId];
+      saveState();
+      return json({ message: 'Session ended' });
+    }
+
+    // Every demo key is a valid account, so validation never rejects anything
+    if (route === 'POST /api/keys/validate') {
+      const keys = ((body as { apiKeys?: string[] }).apiKeys ?? []).map((k) => k.trim()).filter(Boolean);
+      if (keys.length === 0) throw new HttpError(400, 'apiKeys list cannot be empty');
+      return json({ keys: keyUsage(keys) });
+    }
+
+    const session = requireSession(headers);
+
+    const keyIndex = /^DELETE \/api\/keys\/(-?\d+)$/.exec(route);
+    if (keyIndex) {
+      const index = Number(keyIndex[1]);
+      if (index < 0 || index >= session.apiKeys.length) throw new HttpError(400, `No API key at index ${index}`);
+      const maskedKey = url.searchParams.get('maskedKey');
+      if (!maskedKey) throw new HttpError(400, 'maskedKey is required');
+      if (maskKey(session.apiKeys[index]!) !== maskedKey) {
+        throw new HttpError(409, "The session's API keys have changed. Refresh the list and try again.");
+      }
+      if (session.apiKeys.length === 1) throw new HttpError(400, 'A session needs at least one API key');
+      session.apiKeys = session.apiKeys.filter((_, i) => i !== index);
+      saveState();
+      return json({ message: 'API key removed', apiKeyCount: session.apiKeys.length });
+    }
+
+    switch (route) {
+      case 'GET /api/session':
+        return json({
+          sessionId: session.sessionId,
+          config: session.config,
+          createdAt: session.createdAt,
+          expiresAt: expiresAt(session),
+          totalTournaments: tournaments.length,
+          totalBuckets: allBuckets.length,
+          quotesLoaded: Object.keys(session.weekendRoutes).length,
+          apiKeyCount: session.apiKeys.length,
+        });
+      case 'PATCH /api/session/config': {
+        const update = body as SessionConfig;
+        session.config = {
+          originAirport: update.originAirport ?? session.config.originAirport,
+          friendAirports: update.friendAirports ?? session.config.friendAirports,
+          filterMonths: update.filterMonths ?? session.config.filterMonths,
+          tripDurationDays: update.tripDurationDays ?? session.config.tripDurationDays,
+        };
+        saveState();
+        return json({ message: 'Configuration updated', config: session.config });
+      }
+      case 'GET /api/airports':
+        return json({ airports: [...new Set(allBuckets.map((b) => b.key.airport))].sort() });
+      case 'GET /api/states':
+        return json({ states: [...new Set(tournaments.map((t) => t.stateOrRegion))].sort() });
+      case 'GET /api/tournaments':
+        return json({ tournaments: [...new Set(tournaments.map((t) => t.name))].sort() });
+      case 'GET /api/buckets': {
+        const buckets = filteredBuckets(session);
+        return json({ count: buckets.length, buckets });
+      }
+      case 'GET /api/flights/quotes': {
+        const quotes = queryQuotes(session, url.searchParams);
+        return json({ count: quotes.length, quotes });
+      }
+      case 'POST /api/flights/search': {
+        const request = body as SearchFlightsRequest;
+        const origin = request.originAirport ?? session.config.originAirport;
+        const planned = plannedSearches(session, request);
+        await wait(Math.min(planned.length, 4) * searchDelayMs, signal);
+        const results = planned.map((s) =>
+          runSearch(session.sessionId, s.destination, s.departureDate, s.returnDate, request.skipCache ?? false, origin, request.persist ?? true)
+        );
+        return json({ results, totalQuotes: results.reduce((sum, r) => sum + r.quotes.length, 0) });
+      }
+      case 'POST /api/flights/search/stream':
+        return streamSearch(session, body as SearchFlightsRequest, signal);
+      case 'GET /api/keys/usage':
+        return json({ keys: keyUsage(session.apiKeys) });
+      case 'POST /api/keys': {
+        const incoming = ((body as { apiKeys?: string[] }).apiKeys ?? []).map((k) => k.trim()).filter(Boolean);
+        const newKeys = [...new Set(incoming)].filter((k) => !session.apiKeys.includes(k));
+        session.apiKeys = [...session.apiKeys, ...newKeys];
+        saveState();
+        return json({ message: `Added ${newKeys.length} API key(s)`, apiKeyCount: session.apiKeys.length });
+      }
+      default:
+        throw new HttpError(404, `No demo route for ${route}`);
+    }
+  }
+
+  const mockFetch: Transport = async (input, init = {}) => {
+    const url = new URL(input instanceof Request ? input.url : String(input), 'http://demo.local');
+    const method = (init.method ?? 'GET').toUpperCase();
+    const body: unknown = typeof init.body === 'string' ? JSON.parse(init.body) : undefined;
+
+    await wait(latencyMs, init.signal);
+    // Every tab in demo mode shares this state through storage, as tabs share one real backend
+    if (storage) state = loadState();
+    try {
+      return await handle(method, url, new Headers(init.headers), body, init.signal);
+    } catch (err) {
+      if (err instanceof HttpError) return json({ error: err.message }, err.status);
+      throw err;
+    }
+  };
+
+  return {
+    fetch: mockFetch,
+    reset() {
+      state = emptyState();
+      storage?.removeItem(DEMO_STATE_KEY);
+    },
+  };
+}
+
+// The saved session records whether it is a demo one, so a reload resumes it on the mock backend
+export function isDemoMode(): boolean {
+  return loadPersistedSession()?.isDemo === true;
+}
+
+// Points this tab's api.ts at a mock backend, or back at the real one
+export function setDemoMode(enabled: boolean): void {
+  setApiTransport(enabled ? createMockBackend().fetch : null);
+}
+
+// Forgets demo sessions, cached fares and key usage for every tab
+export function clearDemoBackend(): void {
+  localStorage.removeItem(DEMO_STATE_KEY);
+}
+
+// Called at startup, before a persisted session is restored
+export function restoreDemoMode(): void {
+  if (isDemoMode()) setDemoMode(true);
+}
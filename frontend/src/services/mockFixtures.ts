@@ -0,0 +1,168 @@
+// Sample data for demo mode: a season of tournaments and deterministic SerpAPI-style fares,
+// shaped like the backend's responses so every screen has something realistic to show.
+import { addDays } from '@/services/dates';
+import type { FlightQuote, SessionConfig, Tournament, WeekendBucket } from '@/types/api';
+
+export const DEMO_API_KEY = 'demo-sample-data-key';
+
+export const DEMO_CONFIG: Required<SessionConfig> = {
+  originAirport: 'ORD',
+  friendAirports: ['MSP', 'DTW'],
+  filterMonths: 3,
+  tripDurationDays: 2,
+};
+
+// Plan limits reported for demo keys by GET /api/keys/usage
+export const DEMO_SEARCHES_PER_MONTH = 250;
+export const DEMO_STARTING_USAGE = 38;
+
+interface TournamentFixture {
+  name: string;
+  city: string;
+  state: string;
+  airport: string;
+  // Saturday this many weeks after the current week
+  weeksAhead: number;
+  days: number;
+}
+
+const TOURNAMENTS: TournamentFixture[] = [
+  { name: 'Windy City Open', city: 'Chicago', state: 'IL', airport: 'ORD', weeksAhead: 1, days: 2 },
+  { name: 'Texas Spring Classic', city: 'Austin', state: 'TX', airport: 'AUS', weeksAhead: 1, days: 2 },
+  { name: 'Bay Area Giant Round Robin', city: 'Milpitas', state: 'CA', airport: 'SJC', weeksAhead: 2, days: 2 },
+  { name: 'Peach State Championships', city: 'Atlanta', state: 'GA', airport: 'ATL', weeksAhead: 2, days: 1 },
+  { name: 'Twin Cities Table Tennis Open', city: 'Minneapolis', state: 'MN', airport: 'MSP', weeksAhead: 3, days: 2 },
+  { name: 'Motor City Open', city: 'Detroit', state: 'MI', airport: 'DTW', weeksAhead: 4, days: 2 },
+  { name: 'Motor City Junior Challenge', city: 'Novi', state: 'MI', airport: 'DTW', weeksAhead: 4, days: 1 },
+  { name: 'Lone Star Open', city: 'Houston', state: 'TX', airport: 'IAH', weeksAhead: 5, days: 2 },
+  { name: 'Desert Smash', city: 'Las Vegas', state: 'NV', airport: 'LAS', weeksAhead: 5, days: 3 },
+  { name: 'Sunshine State Open', city: 'Orlando', state: 'FL', airport: 'MCO', weeksAhead: 6, days: 2 },
+  { name: 'Garden State Classic', city: 'Edison', state: 'NJ', airport: 'EWR', weeksAhead: 7, days: 2 },
+  { name: 'Rocky Mountain Open', city: 'Denver', state: 'CO', airport: 'DEN', weeksAhead: 7, days: 2 },
+  { name: 'Capital Area Open', city: 'Rockville', state: 'MD', airport: 'IAD', weeksAhead: 8, days: 2 },
+  { name: 'Emerald City Open', city: 'Seattle', state: 'WA', airport: 'SEA', weeksAhead: 9, days: 2 },
+  { name: 'Phoenix Summer Series', city: 'Phoenix', state: 'AZ', airport: 'PHX', weeksAhead: 9, days: 1 },
+  { name: 'Buckeye Open', city: 'Columbus', state: 'OH', airport: 'CMH', weeksAhead: 10, days: 2 },
+  { name: 'SoCal Open', city: 'Irvine', state: 'CA', airport: 'SNA', weeksAhead: 11, days: 2 },
+  { name: 'Triangle Open', city: 'Raleigh', state: 'NC', airport: 'RDU', weeksAhead: 12, days: 2 },
+  { name: 'Big Apple Open', city: 'New York', state: 'NY', airport: 'LGA', weeksAhead: 13, days: 2 },
+  { name: 'Heartland Championships', city: 'Kansas City', state: 'KS', airport: 'MCI', weeksAhead: 14, days: 2 },
+  { name: 'Bay State Open', city: 'Boston', state: 'MA', airport: 'BOS', weeksAhead: 16, days: 2 },
+  { name: 'Portland Rose Open', city: 'Portland', state: 'OR', airport: 'PDX', weeksAhead: 18, days: 2 },
+  { name: 'Sao Paulo International', city: 'Sao Paulo', state: 'BR', airport: 'GRU', weeksAhead: 20, days: 3 },
+];
+
+const AIRLINES = ['American', 'United', 'Delta', 'Southwest', 'Alaska', 'JetBlue', 'Spirit', 'Frontier'];
+
+function isoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function formatRawDate(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+// Dates are relative to today so the sample season is always upcoming
+export function demoTournaments(today = new Date()): Tournament[] {
+  const todayIso = isoDate(today);
+  const daysToSaturday = (6 - today.getDay() + 7) % 7;
+  const nextSaturday = addDays(todayIso, daysToSaturday);
+
+  return TOURNAMENTS.map((t) => {
+    const startDate = addDays(nextSaturday, t.weeksAhead * 7);
+    const endDate = addDays(startDate, t.days - 1);
+    return {
+      name: t.name,
+      city: t.city,
+      stateOrRegion: t.state,
+      startDate,
+      endDate,
+      rawDateText: t.days > 1 ? `${formatRawDate(startDate)} - ${formatRawDate(endDate)}` : formatRawDate(startDate),
+    };
+  });
+}
+
+// Like TournamentService.toWeekendBuckets: tournaments grouped by airport and the Friday before they start
+export function demoBuckets(tournaments: Tournament[]): WeekendBucket[] {
+  const airports = new Map(TOURNAMENTS.map((t) => [t.name, t.airport]));
+  const buckets = new Map<string, WeekendBucket>();
+  for (const t of tournaments) {
+    const airport = airports.get(t.name);
+    if (!airport) continue;
+    const day = new Date(`${t.startDate}T00:00:00Z`).getUTCDay();
+    const weekendStart = addDays(t.startDate, -((day - 5 + 7) % 7));
+    const key = `${airport}|${weekendStart}`;
+    const bucket = buckets.get(key) ?? { key: { airport, weekendStart }, tournaments: [] };
+    bucket.tournaments.push(t);
+    buckets.set(key, bucket);
+  }
+  return [...buckets.values()];
+}
+
+function hash(text: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+// mulberry32: small seeded generator so the same route always gets the same fares
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function clock(minutes: number): string {
+  const m = Math.max(0, Math.min(minutes, 24 * 60 - 1));
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+}
+
+// Round-trip options for one route; `version` nudges prices so repeat searches show movement
+export function demoQuotes(
+  origin: string,
+  destination: string,
+  departureDate: string,
+  returnDate: string,
+  version = 0
+): FlightQuote[] {
+  if (origin === destination) return [];
+
+  const route = seededRandom(hash(`${origin}-${destination}`));
+  const baseFare = 110 + Math.round(route() * 380);
+  const random = seededRandom(hash(`${origin}-${destination}-${departureDate}-${returnDate}`));
+  const drift = version === 0 ? 1 : 1 + (seededRandom(hash(`${departureDate}-${version}`))() - 0.55) * 0.2;
+  const count = 2 + Math.floor(random() * 5);
+
+  const quotes: FlightQuote[] = [];
+  for (let i = 0; i < count; i++) {
+    const departs = 6 * 60 + Math.floor(random() * 15 * 4) * 15;
+    const duration = 90 + Math.floor(random() * 20) * 15;
+    const arrives = departs + duration;
+    // Overnight arrivals carry the next day's date, as SerpAPI reports them
+    const arrivalDate = arrives >= 24 * 60 ? addDays(departureDate, 1) : departureDate;
+    quotes.push({
+      origin,
+      destination,
+      departureDate,
+      returnDate,
+      priceUsd: Math.round(baseFare * drift * (0.8 + random() * 0.7)),
+      outboundDepartureTime: `${departureDate} ${clock(departs)}`,
+      outboundArrivalTime: `${arrivalDate} ${clock(arrives % (24 * 60))}`,
+      airline: AIRLINES[Math.floor(random() * AIRLINES.length)]!,
+      googleFlightsUrl: `https://www.google.com/travel/flights?q=Flights%20to%20${destination}%20from%20${origin}%20on%20${departureDate}%20through%20${returnDate}`,
+    });
+  }
+  return quotes.sort((a, b) => a.priceUsd - b.priceUsd);
+}
@@ -0,0 +1,126 @@
+// Structured notifications for failures and notable events. Each one records which store action
+// raised it and, for API failures, the endpoint and HTTP status, so the notification center can
+// tell a dropped connection (worth retrying) from a rejected request (not worth it).
+import { ApiError } from '@/services/api';
+
+export type NotificationSeverity = 'info' | 'success' | 'warning' | 'error';
+
+// Store actions that report notifications
+export type NotificationSource =
+  | 'createSession'
+  | 'restoreSession'
+  | 'expireSession'
+  | 'updateConfig'
+  | 'searchFlights'
+  | 'searchFlightsStream'
+  | 'loadInitialData'
+  | 'fetchQuotes'
+  | 'refreshSessionInfo'
+  | 'refreshApiKeyUsage'
+  | 'endSession'
+  | 'apiKeys';
+
+export const SOURCE_LABELS: Record<NotificationSource, string> = {
+  createSession: 'Start session',
+  restoreSession: 'Resume session',
+  expireSession: 'Session',
+  updateConfig: 'Update settings',
+  searchFlights: 'Flight search',
+  searchFlightsStream: 'Flight search',
+  loadInitialData: 'Load session data',
+  fetchQuotes: 'Load quotes',
+  refreshSessionInfo: 'Session refresh',
+  refreshApiKeyUsage: 'Key usage refresh',
+  endSession: 'End session',
+  apiKeys: 'API keys',
+};
+
+export interface AppNotification {
+  id: string;
+  severity: NotificationSeverity;
+  source: NotificationSource;
+  message: string;
+  // "METHOD /path" and HTTP status of the failed request; status 0 when there was no response
+  endpoint?: string;
+  status?: number;
+  at: string;
+  retryable: boolean;
+  // Raised by a refresh the user did not ask for
+  background: boolean;
+  // Identical notifications within REPEAT_WINDOW_MS are folded into one
+  count: number;
+  read: boolean;
+}
+
+export type NotificationInput = Pick<AppNotification, 'severity' | 'source' | 'message'> &
+  Partial<Pick<AppNotification, 'endpoint' | 'status' | 'retryable' | 'background'>>;
+
+const MAX_NOTIFICATIONS = 100;
+const REPEAT_WINDOW_MS = 60_000;
+
+let nextId = 0;
+
+export function createNotification(input: NotificationInput, now = new Date()): AppNotification {
+  return {
+    retryable: false,
+    background: false,
+    ...input,
+    id: `${now.getTime()}-${nextId++}`,
+    at: now.toISOString(),
+    count: 1,
+    read: false,
+  };
+}
+
+// Newest first. A repeat of the newest notification bumps its count instead of adding a row.
+export function addNotification(
+  notifications: AppNotification[],
+  notification: AppNotification
+): { notifications: AppNotification[]; isRepeat: boolean } {
+  const latest = notifications[0];
+  const isRepeat =
+    latest !== undefined &&
+    latest.source === notification.source &&
+    latest.message === notification.message &&
+    latest.severity === notification.severity &&
+    Date.parse(notification.at) - Date.parse(latest.at) < REPEAT_WINDOW_MS;
+  if (isRepeat) {
+    const merged = { ...latest, at: notification.at, count: latest.count + 1, read: false };
+    return { notifications: [merged, ...notifications.slice(1)], isRepeat };
+  }
+  return { notifications: [notification, ...notifications].slice(0, MAX_NOTIFICATIONS), isRepeat };
+}
+
+// Null for cancelled requests, which are not failures
+export function notificationFromError(
+  e: unknown,
+  source: NotificationSource,
+  fallback: string,
+  background = false
+): NotificationInput | null {
+  if (e instanceof ApiError) {
+    if (e.isAborted) return null;
+    return {
+      severity: e.isSessionExpired ? 'warning' : 'error',
+      source,
+      message: e.message || fallback,
+      endpoint: e.endpoint,
+      status: e.status,
+      retryable: e.isRetryable,
+      background,
+    };
+  }
+  return {
+    severity: 'error',
+    source,
+    message: e instanceof Error ? e.message : fallback,
+    background,
+  };
+}
+
+export function describeNotification(notification: AppNotification): string {
+  const parts = [SOURCE_LABELS[notification.source]];
+  if (notification.endpoint) parts.push(notification.endpoint);
+  if (notification.status) parts.push(`HTTP ${notification.status}`);
+  return parts.join(' · ');
+}
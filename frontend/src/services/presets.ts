@@ -0,0 +1,184 @@
+// Named search presets: a session config, the quote filters and sort, and the flight search
+// options saved together in localStorage, and shared between teammates as a JSON file.
+import { z } from 'zod';
+import { filtersFromQuery, filtersToQuery, sortFromQuery } from '@/router/filterQuery';
+import type { QuoteQuery, SortState } from '@/services/quoteQuery';
+import { validateConfig } from '@/services/sessionConfig';
+import { SessionConfigSchema, SearchFlightsRequestSchema } from '@/types/api';
+import type { SearchFlightsRequest, SessionConfig } from '@/types/api';
+
+const STORAGE_KEY = 'search-presets';
+const EXPORT_VERSION = 1;
+
+// Search options worth keeping; a single destination or date is too specific for a preset
+export type PresetSearchOptions = Pick<SearchFlightsRequest, 'maxResults' | 'skipCache' | 'destinationAirports'>;
+
+const PresetSearchOptionsSchema = SearchFlightsRequestSchema.pick({
+  maxResults: true,
+  skipCache: true,
+  destinationAirports: true,
+});
+
+export const SearchPresetSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(1),
+  savedAt: z.string().optional(),
+  config: SessionConfigSchema,
+  // Filters and sort in their URL form (router/filterQuery), so presets and shared links cannot drift
+  query: z.record(z.string(), z.string()).default({}),
+  search: PresetSearchOptionsSchema.default({}),
+});
+
+export interface SearchPreset {
+  id: string;
+  name: string;
+  savedAt: string;
+  config: SessionConfig;
+  query: Record<string, string>;
+  search: PresetSearchOptions;
+}
+
+// The export file; a bare array or a single preset is accepted on import too
+const PresetFileSchema = z.union([
+  z.object({ version: z.number().optional(), presets: z.array(SearchPresetSchema) }),
+  z.array(SearchPresetSchema),
+  SearchPresetSchema,
+]);
+
+function stringQuery(filters: QuoteQuery, sort: SortState): Record<string, string> {
+  const query: Record<string, string> = {};
+  for (const [key, value] of Object.entries(filtersToQuery(filters, sort))) {
+    if (typeof value === 'string') query[key] = value;
+  }
+  return query;
+}
+
+export function createPreset(
+  name: string,
+  config: SessionConfig,
+  filters: QuoteQuery,
+  sort: SortState,
+  search: SearchFlightsRequest,
+  now = new Date()
+): SearchPreset {
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    savedAt: now.toISOString(),
+    config: {
+      ...config,
+      friendAirports: [...(config.friendAirports ?? [])],
+    },
+    query: stringQuery(filters, sort),
+    search: {
+      maxResults: search.maxResults ?? undefined,
+      skipCache: search.skipCache || undefined,
+      destinationAirports: search.destinationAirports?.length ? [...search.destinationAirports] : undefined,
+    },
+  };
+}
+
+export function presetFilters(preset: SearchPreset): QuoteQuery {
+  return filtersFromQuery(preset.query);
+}
+
+export function presetSort(preset: SearchPreset): SortState {
+  return sortFromQuery(preset.query);
+}
+
+// One line for the preset picker, e.g. "ORD · 3 mo · 2 days · 2 friends · 3 filters"
+export function describePreset(preset: SearchPreset): string {
+  const parts: string[] = [];
+  if (preset.config.originAirport) parts.push(preset.config.originAirport);
+  if (preset.config.filterMonths) parts.push(`${preset.config.filterMonths} mo`);
+  if (preset.config.tripDurationDays) parts.push(`${preset.config.tripDurationDays} days`);
+  const friends = preset.config.friendAirports?.length ?? 0;
+  if (friends > 0) parts.push(`${friends} ${friends === 1 ? 'friend' : 'friends'}`);
+  const filters = Object.keys(preset.query).filter((k) => k !== 'sort' && k !== 'order').length;
+  if (filters > 0) parts.push(`${filters} ${filters === 1 ? 'filter' : 'filters'}`);
+  return parts.join(' · ');
+}
+
+function normalize(parsed: z.infer<typeof SearchPresetSchema>, now: Date): SearchPreset {
+  return {
+    id: parsed.id ?? crypto.randomUUID(),
+    name: parsed.name,
+    savedAt: parsed.savedAt ?? now.toISOString(),
+    config: parsed.config,
+    query: parsed.query,
+    search: parsed.search,
+  };
+}
+
+export function loadPresets(): SearchPreset[] {
+  try {
+    const parsed = z.array(SearchPresetSchema).safeParse(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]'));
+    return parsed.success ? parsed.data.map((p) => normalize(p, new Date())) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePresets(presets: SearchPreset[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
+
+export function presetsToJson(presets: SearchPreset[]): string {
+  return JSON.stringify({ version: EXPORT_VERSION, presets }, null, 2);
+}
+
+// Throws with a readable message when the file is not a preset export
+export function parsePresetFile(text: string, now = new Date()): SearchPreset[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+  const parsed = PresetFileSchema.safeParse(json);
+  if (!parsed.success) throw new Error('File does not contain search presets');
+
+  const data = parsed.data;
+  const presets = Array.isArray(data) ? data : 'presets' in data ? data.presets : [data];
+  return presets.map((p) => normalize(p, now));
+}
+
+export interface PresetMerge {
+  presets: SearchPreset[];
+  added: number;
+  replaced: number;
+}
+
+// An import also reports the presets left out because their settings were invalid
+export interface PresetImport extends PresetMerge {
+  rejected: string[];
+}
+
+// The same checks as the settings form, so a hand-edited file cannot start a session it would refuse
+export function presetConfigErrors(preset: SearchPreset): string[] {
+  return Object.values(validateConfig(preset.config)).filter((error): error is string => !!error);
+}
+
+export function describePresetImport(result: PresetImport): string {
+  const parts = [`Imported ${result.added} new, ${result.replaced} updated`];
+  if (result.rejected.length > 0) parts.push(`skipped ${result.rejected.join(', ')} (invalid settings)`);
+  return parts.join('; ');
+}
+
+// Imported presets replace saved ones with the same name (case-insensitive) and keep their id
+export function mergePresets(existing: SearchPreset[], incoming: SearchPreset[]): PresetMerge {
+  const presets = [...existing];
+  let added = 0;
+  let replaced = 0;
+  for (const preset of incoming) {
+    const index = presets.findIndex((p) => p.name.toLowerCase() === preset.name.toLowerCase());
+    if (index >= 0) {
+      presets[index] = { ...preset, id: presets[index]!.id };
+      replaced++;
+    } else {
+      presets.push({ ...preset, id: crypto.randomUUID() });
+      added++;
+    }
+  }
+  return { presets, added, replaced };
+}
@@ -0,0 +1,140 @@
+// Local fare history, kept in IndexedDB so trends survive reloads and new sessions.
+// Each series is keyed by origin, destination, weekend and airline; a point is the
+// cheapest fare for that series at the time the backend fetched it.
+import type { WeekendQuote } from '@/types/api';
+
+const DB_NAME = 'tourneyflights-prices';
+const DB_VERSION = 1;
+const STORE_NAME = 'observations';
+
+// Without a backend fetch time, an unchanged fare is only re-recorded after this long
+const UNCHANGED_RECORD_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface PricePoint {
+  priceUsd: number;
+  // ISO timestamp of when the fare was fetched from SerpAPI (or first seen, if unknown)
+  observedAt: string;
+}
+
+export interface PriceObservation extends PricePoint {
+  seriesKey: string;
+  origin: string;
+  destination: string;
+  weekendStart: string;
+  airline: string;
+}
+
+export type PriceSeries = Map<string, PricePoint[]>;
+
+export function priceSeriesKey(origin: string, destination: string, weekendStart: string, airline: string): string {
+  return `${origin}|${destination}|${weekendStart}|${airline}`;
+}
+
+// Cheapest fare per airline in each weekend row, as observations ready to record
+export function observationsFromQuotes(weekendQuotes: WeekendQuote[], now = new Date()): PriceObservation[] {
+  const cheapest = new Map<string, PriceObservation>();
+  for (const wq of weekendQuotes) {
+    const observedAt = wq.cacheInfo?.cachedAt ?? now.toISOString();
+    for (const quote of wq.quotes) {
+      const seriesKey = priceSeriesKey(quote.origin, wq.bucket.key.airport, wq.bucket.key.weekendStart, quote.airline);
+      const existing = cheapest.get(seriesKey);
+      if (existing && existing.priceUsd <= quote.priceUsd) continue;
+      cheapest.set(seriesKey, {
+        seriesKey,
+        origin: quote.origin,
+        destination: wq.bucket.key.airport,
+        weekendStart: wq.bucket.key.weekendStart,
+        airline: quote.airline,
+        priceUsd: quote.priceUsd,
+        observedAt,
+      });
+    }
+  }
+  return [...cheapest.values()];
+}
+
+// Whether an observation adds information over the latest point of its series
+export function isNewObservation(observation: PriceObservation, latest: PricePoint | undefined): boolean {
+  if (!latest) return true;
+  if (observation.observedAt === latest.observedAt) return false;
+  if (observation.priceUsd !== latest.priceUsd) return true;
+  const elapsed = Date.parse(observation.observedAt) - Date.parse(latest.observedAt);
+  return elapsed >= UNCHANGED_RECORD_INTERVAL_MS;
+}
+
+// Change between the last two points; negative means the fare dropped
+export function priceChange(points: PricePoint[] | undefined): number | null {
+  if (!points || points.length < 2) return null;
+  return points[points.length - 1]!.priceUsd - points[points.length - 2]!.priceUsd;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { autoIncrement: true });
+        store.createIndex('seriesKey', 'seriesKey');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry after a failed open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+// Load every recorded series, each sorted oldest first
+export async function loadPriceHistory(): Promise<PriceSeries> {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, 'readonly');
+  const observations = await requestToPromise(tx.objectStore(STORE_NAME).getAll() as IDBRequest<PriceObservation[]>);
+
+  const series: PriceSeries = new Map();
+  for (const o of observations) {
+    const points = series.get(o.seriesKey) ?? [];
+    points.push({ priceUsd: o.priceUsd, observedAt: o.observedAt });
+    series.set(o.seriesKey, points);
+  }
+  for (const points of series.values()) {
+    points.sort((a, b) => a.observedAt.localeCompare(b.observedAt));
+  }
+  return series;
+}
+
+export async function savePriceObservations(observations: PriceObservation[]): Promise<void> {
+  if (observations.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  const store = tx.objectStore(STORE_NAME);
+  for (const observation of observations) {
+    store.add(observation);
+  }
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function clearPriceHistory(): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(STORE_NAME, 'readwrite');
+  await requestToPromise(tx.objectStore(STORE_NAME).clear());
+}
@@ -0,0 +1,101 @@
+// Dev-only benchmark for the quotes view: a deterministic 10k-quote fixture built from the demo
+// season, timed through the same row pipeline FlightSearch uses. Run window.runQuoteBenchmark()
+// from the browser console of a dev build; the spec checks the pipeline's behaviour on it.
+import { addDays } from '@/services/dates';
+import { demoBuckets, demoQuotes, demoTournaments } from '@/services/mockFixtures';
+import { createQuoteRowCache, filterQuoteRows, sortQuoteRows } from '@/services/quoteQuery';
+import type { WeekendQuote } from '@/types/api';
+
+const ORIGINS = ['ORD', 'MSP', 'DTW', 'ATL', 'AUS', 'BOS', 'DEN', 'DFW', 'LAX', 'SEA', 'SFO', 'JFK', 'MIA', 'PHX'];
+
+// Departure and return offsets from the weekend's Friday: Thu-Sun, Fri-Sun, Fri-Mon, Sat-Mon
+const TRIP_SHAPES: [number, number][] = [[-1, 2], [0, 2], [0, 3], [1, 3]];
+
+// Budgets per step on a mid-range laptop, ms; a step over budget is logged as a warning
+const BUDGET_MS = { flatten: 50, reflatten: 10, sort: 40, keystroke: 16 };
+
+// Fares for every demo weekend from a spread of origins and trip shapes, until `count` quotes
+// exist. Each route is also quoted twice now and then, as SerpAPI sometimes does, so duplicate
+// flights exercise the row id suffixes.
+export function benchmarkWeekendQuotes(count = 10_000, today = new Date()): WeekendQuote[] {
+  const buckets = demoBuckets(demoTournaments(today));
+  if (buckets.length === 0) return [];
+  const results = buckets.map((bucket) => ({ bucket, quotes: [] as WeekendQuote['quotes'] }));
+  let total = 0;
+
+  for (let round = 0; total < count; round++) {
+    const origin = ORIGINS[round % ORIGINS.length]!;
+    const [departOffset, returnOffset] = TRIP_SHAPES[Math.floor(round / ORIGINS.length) % TRIP_SHAPES.length]!;
+    const version = Math.floor(round / (ORIGINS.length * TRIP_SHAPES.length));
+    for (const result of results) {
+      const { airport, weekendStart } = result.bucket.key;
+      const quotes = demoQuotes(origin, airport, addDays(weekendStart, departOffset), addDays(weekendStart, returnOffset), version);
+      if (round % 7 === 0 && quotes[0]) quotes.push({ ...quotes[0] });
+      const taken = quotes.slice(0, count - total);
+      result.quotes.push(...taken);
+      total += taken.length;
+      if (total >= count) break;
+    }
+  }
+
+  return results.map((result) => ({
+    ...result,
+    isFriendAirport: false,
+    cacheInfo: { fromCache: true, cacheAgeSeconds: 600, cachedAt: new Date(today.getTime() - 600_000).toISOString() },
+  }));
+}
+
+export interface QuoteBenchmarkResult {
+  quotes: number;
+  rows: number;
+  // Milliseconds per step
+  flatten: number;
+  reflatten: number;
+  sort: number;
+  // Slowest single keystroke while typing a tournament search
+  keystroke: number;
+  duplicateIds: number;
+}
+
+function time<T>(run: () => T): [T, number] {
+  const start = performance.now();
+  const value = run();
+  return [value, performance.now() - start];
+}
+
+export function runQuoteBenchmark(count = 10_000): QuoteBenchmarkResult {
+  const weekendQuotes = benchmarkWeekendQuotes(count);
+  const cache = createQuoteRowCache();
+  const cost = (_: unknown, quote: { priceUsd: number }) => quote.priceUsd + 400;
+
+  const [rows, flatten] = time(() => cache.rows(weekendQuotes, ['MSP', 'DTW'], cost, 'benchmark'));
+  // One streamed weekend replaced: only its rows should be rebuilt
+  const streamed = weekendQuotes.map((wq, i) => (i === 0 ? { ...wq, quotes: [...wq.quotes] } : wq));
+  const [, reflatten] = time(() => cache.rows(streamed, ['MSP', 'DTW'], cost, 'benchmark'));
+  const [sorted, sort] = time(() => sortQuoteRows(rows, { by: 'total', order: 'asc' }));
+
+  let keystroke = 0;
+  const search = 'Motor City Open';
+  for (let i = 1; i <= search.length; i++) {
+    const [, ms] = time(() => filterQuoteRows(sorted, { search: search.slice(0, i) }));
+    keystroke = Math.max(keystroke, ms);
+  }
+
+  const result: QuoteBenchmarkResult = {
+    quotes: weekendQuotes.reduce((sum, wq) => sum + wq.quotes.length, 0),
+    rows: rows.length,
+    flatten,
+    reflatten,
+    sort,
+    keystroke,
+    duplicateIds: rows.length - new Set(rows.map((row) => row.id)).size,
+  };
+
+  console.table(result);
+  for (const [step, budget] of Object.entries(BUDGET_MS)) {
+    const ms = result[step as keyof typeof BUDGET_MS];
+    if (ms > budget) console.warn(`[benchmark] ${step} took ${ms.toFixed(1)}ms, over its ${budget}ms budget`);
+  }
+  if (result.duplicateIds > 0) console.warn(`[benchmark] ${result.duplicateIds} rows share an id`);
+  return result;
+}
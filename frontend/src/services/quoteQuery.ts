@@ -0,0 +1,257 @@
+// Client-side query engine for the quotes view. Every filter and sort runs here, on the
+// full quote list, so the table, mobile cards and exports always agree no matter whether
+// rows came from GET /api/flights/quotes or a streamed search.
+import { parseFlightTime } from '@/services/itinerary';
+import type { CacheInfo, FlightQuote, WeekendBucket, WeekendQuote } from '@/types/api';
+
+export type SortField = 'price' | 'total' | 'date' | 'airport';
+export type SortOrder = 'asc' | 'desc';
+
+export interface SortState {
+  by: SortField;
+  order: SortOrder;
+}
+
+export const DEFAULT_SORT: SortState = { by: 'price', order: 'asc' };
+export const SORT_FIELDS: SortField[] = ['price', 'total', 'date', 'airport'];
+
+// Day of the outbound departure, 0 = Sunday as in Date.getDay()
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+export interface QuoteQuery {
+  airport?: string;
+  state?: string;
+  // Case-insensitive match on tournament names
+  search?: string;
+  friendsOnly?: boolean;
+  minPrice?: number;
+  maxPrice?: number;
+  // Outbound departure window and latest arrival, as "HH:MM" local airport time
+  departAfter?: string;
+  departBefore?: string;
+  arriveBy?: string;
+  includeAirlines?: string[];
+  excludeAirlines?: string[];
+  weekdays?: Weekday[];
+  // Maximum rows after filtering and sorting
+  limit?: number;
+}
+
+// One quote with the weekend it belongs to
+export interface QuoteRow {
+  // Stable across refetches and unique within the list (see quoteIdentity)
+  id: string;
+  bucket: WeekendBucket;
+  quote: FlightQuote;
+  isFriendAirport: boolean;
+  cacheInfo?: CacheInfo;
+  // Airfare plus lodging, ground transport and entry fee (services/tripCost)
+  totalCostUsd?: number;
+}
+
+export function parseClock(value: string | undefined): number | null {
+  if (!value) return null;
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+function dayStart(date: string): number | null {
+  return parseFlightTime('00:00', date);
+}
+
+export function departureWeekday(quote: FlightQuote): Weekday | null {
+  const date = new Date(`${quote.departureDate}T00:00:00Z`);
+  return isNaN(date.getTime()) ? null : (date.getUTCDay() as Weekday);
+}
+
+// Like FlightFilterService.withinWindow: bounds are inclusive and unparseable times pass
+function withinDepartureWindow(quote: FlightQuote, after: number | null, before: number | null): boolean {
+  if (after === null && before === null) return true;
+  const departs = parseFlightTime(quote.outboundDepartureTime, quote.departureDate);
+  const start = dayStart(quote.departureDate);
+  if (departs === null || start === null) return true;
+  const minuteOfDay = departs - start;
+  return (after === null || minuteOfDay >= after) && (before === null || minuteOfDay <= before);
+}
+
+// Arrival by a clock time on the departure day; landing on a later day fails
+function arrivesInTime(quote: FlightQuote, arriveBy: number | null): boolean {
+  if (arriveBy === null) return true;
+  const arrives = parseFlightTime(quote.outboundArrivalTime, quote.departureDate);
+  const start = dayStart(quote.departureDate);
+  if (arrives === null || start === null) return true;
+  return arrives - start <= arriveBy;
+}
+
+// Everything that tells one flight apart except its price, so a repriced flight keeps its identity
+export function quoteIdentity(bucket: WeekendBucket, quote: FlightQuote): string {
+  return [
+    bucket.key.airport,
+    bucket.key.weekendStart,
+    quote.origin,
+    quote.departureDate,
+    quote.returnDate,
+    quote.airline,
+    quote.outboundDepartureTime,
+    quote.outboundArrivalTime,
+  ].join('|');
+}
+
+type RowCost = (bucket: WeekendBucket, quote: FlightQuote) => number;
+
+// Rows for one weekend; identical flights get a #2, #3... suffix so ids never collide
+function weekendRows(wq: WeekendQuote, isFriendAirport: boolean, cost?: RowCost): QuoteRow[] {
+  const seen = new Map<string, number>();
+  return wq.quotes.map((quote) => {
+    const identity = quoteIdentity(wq.bucket, quote);
+    const count = (seen.get(identity) ?? 0) + 1;
+    seen.set(identity, count);
+    return {
+      id: count === 1 ? identity : `${identity}#${count}`,
+      bucket: wq.bucket,
+      quote,
+      isFriendAirport,
+      cacheInfo: wq.cacheInfo,
+      totalCostUsd: cost?.(wq.bucket, quote),
+    };
+  });
+}
+
+export function flattenQuotes(weekendQuotes: WeekendQuote[], friendAirports: string[] = []): QuoteRow[] {
+  const friends = new Set(friendAirports);
+  return weekendQuotes.flatMap((wq) => weekendRows(wq, friends.has(wq.bucket.key.airport)));
+}
+
+export interface QuoteRowCache {
+  // `costKey` must change whenever `cost` would return different totals
+  rows(weekendQuotes: WeekendQuote[], friendAirports: string[], cost?: RowCost, costKey?: string): QuoteRow[];
+}
+
+// Incremental flattenQuotes: rows are rebuilt only for weekends whose WeekendQuote object was
+// replaced (a streamed result, a refetch), or for all of them when friends or costs change
+export function createQuoteRowCache(): QuoteRowCache {
+  let cache = new WeakMap<WeekendQuote, QuoteRow[]>();
+  let lastKey = '';
+
+  return {
+    rows(weekendQuotes, friendAirports, cost, costKey = '') {
+      const key = `${[...friendAirports].sort().join(',')}|${costKey}`;
+      if (key !== lastKey) {
+        cache = new WeakMap();
+        lastKey = key;
+      }
+      const friends = new Set(friendAirports);
+      return weekendQuotes.flatMap((wq) => {
+        let rows = cache.get(wq);
+        if (!rows) {
+          rows = weekendRows(wq, friends.has(wq.bucket.key.airport), cost);
+          cache.set(wq, rows);
+        }
+        return rows;
+      });
+    },
+  };
+}
+
+// Lower-cased tournament names per bucket, so search-as-you-type does not re-lowercase every row
+const bucketSearchText = new WeakMap<WeekendBucket, string[]>();
+
+function tournamentNames(bucket: WeekendBucket): string[] {
+  let names = bucketSearchText.get(bucket);
+  if (!names) {
+    names = bucket.tournaments.map((t) => t.name.toLowerCase());
+    bucketSearchText.set(bucket, names);
+  }
+  return names;
+}
+
+// Builds a predicate once per query so per-row checks stay cheap
+export function quoteMatcher(query: QuoteQuery): (row: QuoteRow) => boolean {
+  const search = query.search?.trim().toLowerCase();
+  const departAfter = parseClock(query.departAfter);
+  const departBefore = parseClock(query.departBefore);
+  const arriveBy = parseClock(query.arriveBy);
+  const include = query.includeAirlines?.length ? new Set(query.includeAirlines) : null;
+  const exclude = query.excludeAirlines?.length ? new Set(query.excludeAirlines) : null;
+  const weekdays = query.weekdays?.length ? new Set<number>(query.weekdays) : null;
+
+  return (row) => {
+    const { bucket, quote } = row;
+    if (query.airport && bucket.key.airport !== query.airport) return false;
+    if (query.state && !bucket.tournaments.some((t) => t.stateOrRegion === query.state)) return false;
+    if (search && !tournamentNames(bucket).some((name) => name.includes(search))) return false;
+    if (query.friendsOnly && !row.isFriendAirport) return false;
+    if (query.minPrice != null && quote.priceUsd < query.minPrice) return false;
+    if (query.maxPrice != null && quote.priceUsd > query.maxPrice) return false;
+    if (include && !include.has(quote.airline)) return false;
+    if (exclude && exclude.has(quote.airline)) return false;
+    if (weekdays) {
+      const day = departureWeekday(quote);
+      if (day !== null && !weekdays.has(day)) return false;
+    }
+    if (!withinDepartureWindow(quote, departAfter, departBefore)) return false;
+    if (!arrivesInTime(quote, arriveBy)) return false;
+    return true;
+  };
+}
+
+export function compareQuoteRows(a: QuoteRow, b: QuoteRow, by: SortField): number {
+  switch (by) {
+    case 'price':
+      return a.quote.priceUsd - b.quote.priceUsd;
+    case 'total':
+      return (a.totalCostUsd ?? a.quote.priceUsd) - (b.totalCostUsd ?? b.quote.priceUsd);
+    case 'date':
+      return a.bucket.key.weekendStart.localeCompare(b.bucket.key.weekendStart);
+    case 'airport':
+      return a.bucket.key.airport.localeCompare(b.bucket.key.airport);
+  }
+}
+
+// Stable sort; price breaks ties so equal dates or airports list cheapest first
+export function sortQuoteRows(rows: QuoteRow[], sort: SortState): QuoteRow[] {
+  const direction = sort.order === 'asc' ? 1 : -1;
+  return [...rows].sort(
+    (a, b) => direction * compareQuoteRows(a, b, sort.by) || compareQuoteRows(a, b, 'price')
+  );
+}
+
+// Filtering keeps order, so rows sorted once can be re-filtered on every keystroke without re-sorting
+export function filterQuoteRows(sortedRows: QuoteRow[], query: QuoteQuery): QuoteRow[] {
+  const matches = quoteMatcher(query);
+  const rows: QuoteRow[] = [];
+  for (const row of sortedRows) {
+    if (!matches(row)) continue;
+    rows.push(row);
+    if (query.limit && rows.length >= query.limit) break;
+  }
+  return rows;
+}
+
+export function runQuoteQuery(rows: QuoteRow[], query: QuoteQuery, sort: SortState): QuoteRow[] {
+  const sorted = sortQuoteRows(rows.filter(quoteMatcher(query)), sort);
+  return query.limit ? sorted.slice(0, query.limit) : sorted;
+}
+
+export function availableAirlines(weekendQuotes: WeekendQuote[]): string[] {
+  const airlines = new Set<string>();
+  for (const wq of weekendQuotes) {
+    for (const quote of wq.quotes) {
+      if (quote.airline) airlines.add(quote.airline);
+    }
+  }
+  return [...airlines].sort();
+}
+
+// Number of filters beyond the defaults, for the "N filters" badge
+export function activeFilterCount(query: QuoteQuery): number {
+  return Object.entries(query).filter(([key, value]) => {
+    if (key === 'friendsOnly') return value === true;
+    if (Array.isArray(value)) return value.length > 0;
+    return value !== undefined && value !== null && value !== '';
+  }).length;
+}
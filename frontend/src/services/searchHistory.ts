@@ -0,0 +1,221 @@
+// Log of streamed searches, kept in localStorage so the credits each run used and the fares
+// it found are still there after the next run or a reload. Entries keep the cheapest fare per
+// route rather than every quote, which is enough to diff runs and find stale routes.
+import type { SearchPlan } from '@/services/searchPlanner';
+import type { FlightSearchResult, SearchFlightsRequest, SearchFlightsResponse, SessionConfig } from '@/types/api';
+
+const STORAGE_KEY = 'search-history';
+const MAX_ENTRIES = 50;
+const HOUR_MS = 60 * 60 * 1000;
+
+export type SearchOutcome = 'completed' | 'cancelled' | 'failed';
+
+// A streamed search as the session store tracks it; `outcome` is set once it ends
+export interface SearchRun {
+  request: SearchFlightsRequest;
+  config: SessionConfig;
+  startedAt: string;
+  // Searches left across the key pool when the run started, null if no key reported a number
+  remainingBefore: number | null;
+  finishedAt?: string;
+  outcome?: SearchOutcome;
+  // Results received before the run ended, partial for cancelled or failed runs
+  response?: SearchFlightsResponse;
+}
+
+export interface SearchHistoryRoute {
+  destination: string;
+  departureDate: string;
+  returnDate: string;
+  cheapestUsd: number | null;
+  quoteCount: number;
+  fromCache: boolean;
+  // When SerpAPI was queried for this route; null when the backend did not say
+  cachedAt: string | null;
+}
+
+export interface SearchHistoryEntry {
+  id: string;
+  request: SearchFlightsRequest;
+  config: SessionConfig;
+  startedAt: string;
+  finishedAt: string;
+  outcome: SearchOutcome;
+  resultCount: number;
+  totalQuotes: number;
+  cachedLookups: number;
+  liveLookups: number;
+  remainingBefore: number | null;
+  remainingAfter: number | null;
+  routes: SearchHistoryRoute[];
+}
+
+// new: priced now but not before; gone: priced before, no fares now
+export type FareChangeKind = 'up' | 'down' | 'same' | 'new' | 'gone';
+
+export interface FareChange {
+  destination: string;
+  departureDate: string;
+  returnDate: string;
+  kind: FareChangeKind;
+  previousUsd: number | null;
+  currentUsd: number | null;
+  // Current minus previous, when both runs found a fare
+  change: number | null;
+}
+
+export interface SearchHistoryDiff {
+  previous: SearchHistoryEntry;
+  changes: FareChange[];
+}
+
+function routeKey(route: Pick<SearchHistoryRoute, 'destination' | 'departureDate' | 'returnDate'>): string {
+  return `${route.destination}|${route.departureDate}|${route.returnDate}`;
+}
+
+function toRoute(result: FlightSearchResult): SearchHistoryRoute {
+  return {
+    destination: result.destination,
+    departureDate: result.departureDate,
+    returnDate: result.returnDate,
+    cheapestUsd: result.quotes.length > 0 ? Math.min(...result.quotes.map((q) => q.priceUsd)) : null,
+    quoteCount: result.quotes.length,
+    fromCache: result.cacheInfo.fromCache,
+    cachedAt: result.cacheInfo.cachedAt,
+  };
+}
+
+// `remainingAfter` comes from a usage refresh after the run, so it is passed in separately
+export function createHistoryEntry(run: SearchRun, remainingAfter: number | null, now = new Date()): SearchHistoryEntry {
+  const results = run.response?.results ?? [];
+  const cachedLookups = results.filter((r) => r.cacheInfo.fromCache).length;
+  return {
+    id: `${run.startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+    request: run.request,
+    config: run.config,
+    startedAt: run.startedAt,
+    finishedAt: run.finishedAt ?? now.toISOString(),
+    outcome: run.outcome ?? 'completed',
+    resultCount: results.length,
+    totalQuotes: run.response?.totalQuotes ?? 0,
+    cachedLookups,
+    liveLookups: results.length - cachedLookups,
+    remainingBefore: run.remainingBefore,
+    remainingAfter,
+    routes: results.map(toRoute),
+  };
+}
+
+// Credits the run used according to the key pool, null when either count is unknown.
+// Other activity on the same keys between the two reads is counted too.
+export function creditsUsed(entry: SearchHistoryEntry): number | null {
+  if (entry.remainingBefore === null || entry.remainingAfter === null) return null;
+  return Math.max(0, entry.remainingBefore - entry.remainingAfter);
+}
+
+export function durationSeconds(entry: SearchHistoryEntry): number {
+  return Math.max(0, Math.round((Date.parse(entry.finishedAt) - Date.parse(entry.startedAt)) / 1000));
+}
+
+// Newest first; the oldest entries drop off past MAX_ENTRIES
+export function appendHistoryEntry(entries: SearchHistoryEntry[], entry: SearchHistoryEntry): SearchHistoryEntry[] {
+  return [entry, ...entries].slice(0, MAX_ENTRIES);
+}
+
+// Routes whose fares were fetched from SerpAPI more than `hours` ago
+export function staleRoutes(entry: SearchHistoryEntry, hours: number, now = new Date()): SearchHistoryRoute[] {
+  const cutoff = now.getTime() - hours * HOUR_MS;
+  return entry.routes.filter((route) => Date.parse(route.cachedAt ?? entry.finishedAt) < cutoff);
+}
+
+// The entry's search narrowed to airports with a stale route, with the cache skipped so those
+// routes are fetched live. Pass it through onlyRoutes so fresh weekends at the same airports
+// are left out. Null when nothing is stale.
+export function staleRerunRequest(entry: SearchHistoryEntry, hours: number, now = new Date()): SearchFlightsRequest | null {
+  const airports = [...new Set(staleRoutes(entry, hours, now).map((route) => route.destination))];
+  if (airports.length === 0) return null;
+  return {
+    ...entry.request,
+    destinationAirport: undefined,
+    destinationAirports: airports,
+    skipCache: true,
+    skipIndices: undefined,
+  };
+}
+
+// Skips every planned search but `routes`. `plan` must be planSearch for this request against
+// the session's current buckets and config, so its indices are the ones the backend runs.
+export function onlyRoutes(
+  request: SearchFlightsRequest,
+  plan: SearchPlan,
+  routes: SearchHistoryRoute[]
+): SearchFlightsRequest {
+  const wanted = new Set(routes.map(routeKey));
+  const skipIndices = plan.searches.flatMap((search, index) => (wanted.has(routeKey(search)) ? [] : [index]));
+  return { ...request, skipIndices };
+}
+
+// Fare changes on this run's routes against the most recent earlier run that covered any of them.
+// Routes only the earlier run searched are left out, so a narrower re-run is not all "gone".
+export function diffAgainstPrevious(entries: SearchHistoryEntry[], entry: SearchHistoryEntry): SearchHistoryDiff | null {
+  const current = new Map(entry.routes.map((route) => [routeKey(route), route]));
+  const index = entries.indexOf(entry);
+  const previous = entries
+    .slice(index + 1)
+    .find((candidate) => candidate.routes.some((route) => current.has(routeKey(route))));
+  if (!previous) return null;
+
+  const before = new Map(previous.routes.map((route) => [routeKey(route), route]));
+  const changes = [...current].map(([key, route]): FareChange => {
+    const old = before.get(key);
+    const previousUsd = old?.cheapestUsd ?? null;
+    const currentUsd = route.cheapestUsd;
+    const change = previousUsd !== null && currentUsd !== null ? currentUsd - previousUsd : null;
+    let kind: FareChangeKind;
+    if (change !== null) kind = change > 0 ? 'up' : change < 0 ? 'down' : 'same';
+    else if (currentUsd !== null) kind = 'new';
+    else kind = previousUsd !== null ? 'gone' : 'same';
+    return {
+      destination: route.destination,
+      departureDate: route.departureDate,
+      returnDate: route.returnDate,
+      kind,
+      previousUsd,
+      currentUsd,
+      change,
+    };
+  });
+
+  // Biggest movers first, then routes only one run priced
+  const magnitude = (c: FareChange) => (c.change === null ? -1 : Math.abs(c.change));
+  changes.sort((a, b) => magnitude(b) - magnitude(a));
+  return { previous, changes };
+}
+
+export function describeRequest(entry: SearchHistoryEntry): string {
+  const { request, config } = entry;
+  const origin = request.originAirport ?? config.originAirport ?? 'Origin';
+  const destinations = request.destinationAirport
+    ? request.destinationAirport
+    : request.destinationAirports?.length
+      ? request.destinationAirports.join(', ')
+      : 'all airports';
+  const parts = [`${origin} → ${destinations}`];
+  if (request.departureDate) parts.push(request.departureDate);
+  if (request.maxResults) parts.push(`max ${request.maxResults}`);
+  if (request.skipCache) parts.push('no cache');
+  return parts.join(' · ');
+}
+
+export function loadSearchHistory(): SearchHistoryEntry[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]') as unknown;
+    return Array.isArray(parsed) ? (parsed as SearchHistoryEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveSearchHistory(entries: SearchHistoryEntry[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+}
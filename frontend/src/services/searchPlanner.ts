@@ -0,0 +1,198 @@
+import { addDays } from '@/services/dates';
+import type {
+  ApiKeyUsage,
+  SearchFlightsRequest,
+  SessionConfig,
+  WeekendBucket,
+  WeekendQuote,
+} from '@/types/api';
+
+// Backend flight cache lifetime (FlightsClient, CACHE_TTL_SECONDS)
+export const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface PlannedSearch {
+  destination: string;
+  departureDate: string;
+  returnDate: string;
+  isFriendAirport: boolean;
+  fromCache: boolean;
+}
+
+export interface SearchPlan {
+  searches: PlannedSearch[];
+  apiCalls: number;
+  cachedCalls: number;
+}
+
+export interface QuotaEstimate extends SearchPlan {
+  remaining: number;
+  keyCount: number;
+  exceedsQuota: boolean;
+}
+
+export type TrimStrategy = 'nearest-first' | 'friends-only';
+
+export interface TrimmedPlan {
+  strategy: TrimStrategy;
+  // Fields to merge into the SearchFlightsRequest to run this plan
+  request: Pick<SearchFlightsRequest, 'maxResults' | 'destinationAirports'>;
+  plan: SearchPlan;
+}
+
+export interface PlanInput {
+  buckets: WeekendBucket[];
+  request: SearchFlightsRequest;
+  config: SessionConfig;
+  quotes: WeekendQuote[];
+  now?: number;
+}
+
+function compareBuckets(a: WeekendBucket, b: WeekendBucket): number {
+  return a.key.weekendStart.localeCompare(b.key.weekendStart) || a.key.airport.localeCompare(b.key.airport);
+}
+
+// A weekend row is still in the backend cache if it was fetched for the same route within the TTL
+function isCached(
+  quote: WeekendQuote | undefined,
+  origin: string | undefined,
+  returnDate: string,
+  now: number
+): boolean {
+  if (!quote?.cacheInfo) return false;
+  const sample = quote.quotes[0];
+  // Without a sample quote the cached route can't be verified, so count it as a call
+  if (!sample || sample.origin !== origin || sample.returnDate !== returnDate) return false;
+
+  if (!quote.cacheInfo.fromCache) {
+    // Fetched live during this session; sessions last far less than the cache TTL
+    return true;
+  }
+  const cachedAt = quote.cacheInfo.cachedAt ? new Date(quote.cacheInfo.cachedAt).getTime() : NaN;
+  return Number.isFinite(cachedAt) && now - cachedAt < CACHE_TTL_MS;
+}
+
+// Mirrors ApiRoutes.plannedSearches: which searches a request will run, nearest weekends first
+export function planSearch({ buckets, request, config, quotes, now = Date.now() }: PlanInput): SearchPlan {
+  const tripDays = config.tripDurationDays ?? 2;
+  const origin = request.originAirport ?? config.originAirport;
+  const friends = new Set(config.friendAirports ?? []);
+  const allowed = request.destinationAirports
+    ? new Set(request.destinationAirports.map((a) => a.toUpperCase()))
+    : null;
+  const sorted = [...buckets]
+    .filter((b) => !allowed || allowed.has(b.key.airport))
+    .sort(compareBuckets);
+
+  let routes: { destination: string; departureDate: string; returnDate: string }[];
+  const dest = request.destinationAirport?.toUpperCase();
+  const depDate = request.departureDate;
+
+  if (dest && depDate) {
+    routes = [{ destination: dest, departureDate: depDate, returnDate: request.returnDate ?? addDays(depDate, tripDays) }];
+  } else if (dest) {
+    routes = sorted
+      .filter((b) => b.key.airport === dest)
+      .map((b) => ({ destination: b.key.airport, departureDate: b.key.weekendStart, returnDate: addDays(b.key.weekendStart, tripDays) }));
+  } else if (depDate) {
+    routes = sorted
+      .filter((b) => b.key.weekendStart === depDate)
+      .map((b) => ({ destination: b.key.airport, departureDate: depDate, returnDate: request.returnDate ?? addDays(depDate, tripDays) }));
+  } else {
+    routes = sorted.map((b) => ({
+      destination: b.key.airport,
+      departureDate: b.key.weekendStart,
+      returnDate: addDays(b.key.weekendStart, tripDays),
+    }));
+  }
+
+  if (request.maxResults) {
+    routes = routes.slice(0, request.maxResults);
+  }
+
+  const quoteIndex = new Map(quotes.map((wq) => [`${wq.bucket.key.airport}|${wq.bucket.key.weekendStart}`, wq]));
+  const searches = routes.map((route) => ({
+    ...route,
+    isFriendAirport: friends.has(route.destination),
+    fromCache: !request.skipCache
+      && isCached(quoteIndex.get(`${route.destination}|${route.departureDate}`), origin, route.returnDate, now),
+  }));
+
+  return summarize(searches);
+}
+
+// One-route requests for the weekend rows the backend cache can still serve without a live call
+export function cachedRouteRequests(quotes: WeekendQuote[], now = Date.now()): SearchFlightsRequest[] {
+  return quotes.flatMap((wq) => {
+    const sample = wq.quotes[0];
+    if (!sample || !isCached(wq, sample.origin, sample.returnDate, now)) return [];
+    return [{
+      originAirport: sample.origin,
+      destinationAirport: wq.bucket.key.airport,
+      departureDate: wq.bucket.key.weekendStart,
+      returnDate: sample.returnDate,
+    }];
+  });
+}
+
+// The plan left once a stream skips the given planned search indices
+export function skipSearches(plan: SearchPlan, skipIndices: number[] = []): SearchPlan {
+  if (skipIndices.length === 0) return plan;
+  const skip = new Set(skipIndices);
+  return summarize(plan.searches.filter((_, i) => !skip.has(i)));
+}
+
+function summarize(searches: PlannedSearch[]): SearchPlan {
+  const cachedCalls = searches.filter((s) => s.fromCache).length;
+  return { searches, cachedCalls, apiCalls: searches.length - cachedCalls };
+}
+
+export function estimateQuota(plan: SearchPlan, usage: ApiKeyUsage[]): QuotaEstimate {
+  const usableKeys = usage.filter((key) => !key.error);
+  const remaining = usableKeys.reduce((sum, key) => sum + (key.totalSearchesLeft ?? 0), 0);
+  return {
+    ...plan,
+    remaining,
+    keyCount: usableKeys.length,
+    // Without usable usage data there is nothing to enforce
+    exceedsQuota: usableKeys.length > 0 && plan.apiCalls > remaining,
+  };
+}
+
+// Longest prefix of the plan (searches run in order) whose live calls fit the budget
+function fitPrefix(searches: PlannedSearch[], budget: number): PlannedSearch[] {
+  let calls = 0;
+  let count = 0;
+  for (const search of searches) {
+    const cost = search.fromCache ? 0 : 1;
+    if (calls + cost > budget) break;
+    calls += cost;
+    count++;
+  }
+  return searches.slice(0, count);
+}
+
+// Cut a plan down to a budget of live API calls
+export function trimPlan(
+  plan: SearchPlan,
+  strategy: TrimStrategy,
+  budget: number,
+  config: SessionConfig
+): TrimmedPlan | null {
+  const friends = config.friendAirports ?? [];
+  if (strategy === 'friends-only' && friends.length === 0) return null;
+
+  const candidates = strategy === 'friends-only'
+    ? plan.searches.filter((s) => s.isFriendAirport)
+    : plan.searches;
+  const kept = fitPrefix(candidates, Math.max(0, budget));
+  if (kept.length === 0) return null;
+
+  return {
+    strategy,
+    request: {
+      maxResults: kept.length,
+      destinationAirports: strategy === 'friends-only' ? friends : undefined,
+    },
+    plan: summarize(kept),
+  };
+}
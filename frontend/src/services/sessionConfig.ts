@@ -0,0 +1,111 @@
+import type { SessionConfig, UpdateConfigRequest } from '@/types/api';
+
+export type ConfigField = keyof SessionConfig;
+
+export interface ConfigChange {
+  field: ConfigField;
+  label: string;
+  from: string;
+  to: string;
+}
+
+export type ConfigErrors = Partial<Record<ConfigField, string>>;
+
+// Bounds match the inputs in FlightSearch.vue
+export const FILTER_MONTHS_RANGE = { min: 1, max: 12 };
+export const TRIP_DAYS_RANGE = { min: 1, max: 14 };
+
+const IATA_CODE = /^[A-Z]{3}$/;
+
+const FIELD_LABELS: Record<ConfigField, string> = {
+  originAirport: 'Origin',
+  filterMonths: 'Months Ahead',
+  tripDurationDays: 'Trip Days',
+  friendAirports: 'Friend Airports',
+};
+
+export function normalizeAirportCode(code: string | undefined): string | undefined {
+  const trimmed = code?.trim().toUpperCase();
+  return trimmed ? trimmed : undefined;
+}
+
+// Trimmed, upper-cased and de-duplicated, keeping first-seen order
+export function normalizeAirportList(codes: string[] | undefined): string[] {
+  const normalized = (codes ?? []).map(normalizeAirportCode).filter((code): code is string => code !== undefined);
+  return [...new Set(normalized)];
+}
+
+function sameAirportSet(a: string[] = [], b: string[] = []): boolean {
+  if (a.length !== b.length) return false;
+  const set = new Set(a);
+  return b.every((code) => set.has(code));
+}
+
+function formatValue(field: ConfigField, config: SessionConfig): string {
+  const value = config[field];
+  if (field === 'friendAirports') {
+    const list = value as string[] | undefined;
+    return list?.length ? list.join(', ') : 'None';
+  }
+  return value === undefined || value === null ? 'Not set' : String(value);
+}
+
+// Build a PATCH body containing only the fields that differ from the applied config
+export function diffConfig(applied: SessionConfig, edited: SessionConfig): UpdateConfigRequest {
+  const patch: UpdateConfigRequest = {};
+
+  const origin = normalizeAirportCode(edited.originAirport);
+  if (origin !== undefined && origin !== applied.originAirport) {
+    patch.originAirport = origin;
+  }
+  if (edited.filterMonths != null && edited.filterMonths !== applied.filterMonths) {
+    patch.filterMonths = edited.filterMonths;
+  }
+  if (edited.tripDurationDays != null && edited.tripDurationDays !== applied.tripDurationDays) {
+    patch.tripDurationDays = edited.tripDurationDays;
+  }
+  const friends = normalizeAirportList(edited.friendAirports);
+  if (!sameAirportSet(friends, normalizeAirportList(applied.friendAirports))) {
+    patch.friendAirports = friends;
+  }
+
+  return patch;
+}
+
+// Human-readable list of pending changes for display
+export function describeConfigChanges(applied: SessionConfig, patch: UpdateConfigRequest): ConfigChange[] {
+  return (Object.keys(patch) as ConfigField[]).map((field) => ({
+    field,
+    label: FIELD_LABELS[field],
+    from: formatValue(field, applied),
+    to: formatValue(field, patch),
+  }));
+}
+
+export function validateConfig(config: SessionConfig): ConfigErrors {
+  const errors: ConfigErrors = {};
+
+  const origin = normalizeAirportCode(config.originAirport);
+  if (!origin) {
+    errors.originAirport = 'Origin airport is required';
+  } else if (!IATA_CODE.test(origin)) {
+    errors.originAirport = 'Use a 3-letter IATA code, e.g. ORD';
+  }
+
+  const months = config.filterMonths;
+  if (months == null || !Number.isInteger(months) || months < FILTER_MONTHS_RANGE.min || months > FILTER_MONTHS_RANGE.max) {
+    errors.filterMonths = `Months ahead must be ${FILTER_MONTHS_RANGE.min}–${FILTER_MONTHS_RANGE.max}`;
+  }
+
+  const days = config.tripDurationDays;
+  if (days == null || !Number.isInteger(days) || days < TRIP_DAYS_RANGE.min || days > TRIP_DAYS_RANGE.max) {
+    errors.tripDurationDays = `Trip days must be ${TRIP_DAYS_RANGE.min}–${TRIP_DAYS_RANGE.max}`;
+  }
+
+  const invalidFriends = normalizeAirportList(config.friendAirports).filter((code) => !IATA_CODE.test(code));
+  if (invalidFriends.length > 0) {
+    errors.friendAirports = `Invalid airport codes: ${invalidFriends.join(', ')}`;
+  }
+
+  return errors;
+}
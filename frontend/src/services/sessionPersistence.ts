@@ -0,0 +1,67 @@
+import type { SessionConfig } from '@/types/api';
+import type { FareWatch } from '@/services/fareWatch';
+
+const STORAGE_KEY = 'session';
+const CHANNEL_NAME = 'tourneyflights-session';
+
+export interface PersistedSession {
+  sessionId: string;
+  config: SessionConfig;
+  expiresAt?: string;
+  watches?: FareWatch[];
+  // Served by the in-browser mock backend; other tabs and reloads must switch to it too
+  isDemo?: boolean;
+}
+
+// Messages exchanged between tabs so they share one backend session
+export type SessionSyncMessage =
+  | { type: 'started'; session: PersistedSession }
+  | { type: 'config-updated'; sessionId: string; config: SessionConfig }
+  | { type: 'watches-updated'; sessionId: string; watches: FareWatch[] }
+  | { type: 'ended'; sessionId: string };
+
+export interface SessionChannel {
+  post(message: SessionSyncMessage): void;
+  close(): void;
+}
+
+export function loadPersistedSession(): PersistedSession | null {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return null;
+
+  try {
+    const parsed = JSON.parse(stored) as PersistedSession;
+    return typeof parsed.sessionId === 'string' ? parsed : null;
+  } catch {
+    localStorage.removeItem(STORAGE_KEY);
+    return null;
+  }
+}
+
+export function savePersistedSession(session: PersistedSession): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+}
+
+export function clearPersistedSession(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+export function isPersistedSessionExpired(session: PersistedSession): boolean {
+  if (!session.expiresAt) return false;
+  return new Date(session.expiresAt).getTime() <= Date.now();
+}
+
+// Returns null where BroadcastChannel is unavailable; tabs then simply don't sync
+export function createSessionChannel(
+  onMessage: (message: SessionSyncMessage) => void
+): SessionChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<SessionSyncMessage>) => onMessage(event.data);
+
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close(),
+  };
+}
@@ -0,0 +1,68 @@
+// Shortlist of pinned quotes. Each pin keeps a snapshot of the quote as it was when pinned,
+// so it survives refetches and reloads and can be checked against the latest quotes.
+import { quoteIdentity } from '@/services/quoteQuery';
+import type { QuoteRow } from '@/services/quoteQuery';
+import type { CacheInfo, FlightQuote, WeekendBucket } from '@/types/api';
+
+const STORAGE_KEY = 'shortlist';
+
+export interface ShortlistEntry {
+  id: string;
+  pinnedAt: string;
+  bucket: WeekendBucket;
+  quote: FlightQuote;
+  isFriendAirport: boolean;
+  cacheInfo?: CacheInfo;
+}
+
+// current: still quoted at the pinned price; changed: quoted at a different price;
+// missing: the latest quotes no longer include it
+export type ShortlistStatus = 'current' | 'changed' | 'missing';
+
+export interface ResolvedShortlistEntry {
+  entry: ShortlistEntry;
+  status: ShortlistStatus;
+  // The matching row in the latest quotes, when there is one
+  latest: QuoteRow | null;
+  // Latest minus pinned price
+  priceChange: number | null;
+}
+
+// Same identity as QuoteRow.id, without the duplicate suffix
+export function shortlistId(bucket: WeekendBucket, quote: FlightQuote): string {
+  return quoteIdentity(bucket, quote);
+}
+
+export function createShortlistEntry(row: QuoteRow, now = new Date()): ShortlistEntry {
+  return {
+    id: shortlistId(row.bucket, row.quote),
+    pinnedAt: now.toISOString(),
+    bucket: row.bucket,
+    quote: row.quote,
+    isFriendAirport: row.isFriendAirport,
+    cacheInfo: row.cacheInfo,
+  };
+}
+
+export function resolveShortlist(entries: ShortlistEntry[], rows: QuoteRow[]): ResolvedShortlistEntry[] {
+  const latest = new Map(rows.map((row) => [shortlistId(row.bucket, row.quote), row]));
+  return entries.map((entry) => {
+    const row = latest.get(entry.id) ?? null;
+    if (!row) return { entry, status: 'missing', latest: null, priceChange: null };
+    const priceChange = row.quote.priceUsd - entry.quote.priceUsd;
+    return { entry, status: priceChange === 0 ? 'current' : 'changed', latest: row, priceChange };
+  });
+}
+
+export function loadShortlist(): ShortlistEntry[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]') as unknown;
+    return Array.isArray(parsed) ? (parsed as ShortlistEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveShortlist(entries: ShortlistEntry[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+}
@@ -0,0 +1,136 @@
+// Team trips: one search per home airport, combined into an origin × weekend matrix.
+// The backend keeps a single weekend row per destination, so the matrix is built from
+// the stream results of each origin's search rather than from GET /api/flights/quotes.
+import type { FlightSearchResult, WeekendBucket } from '@/types/api';
+
+export interface TeamOrigin {
+  airport: string;
+  headcount: number;
+}
+
+// Cheapest fare per origin; undefined = not searched, null = searched without flights
+export type TeamFares = Record<string, number | null | undefined>;
+
+export interface TeamWeekendRow {
+  bucket: WeekendBucket;
+  fares: TeamFares;
+  // Sum of headcount × fare over the members who have a fare
+  totalCost: number;
+  // Highest fare any member with a fare has to pay
+  maxFare: number | null;
+  coveredMembers: number;
+  totalMembers: number;
+}
+
+export type TeamSortField = 'totalCost' | 'maxFare' | 'coverage' | 'date';
+
+export interface TeamFilters {
+  airport?: string;
+  state?: string;
+  search?: string;
+  // Upper bound on the highest individual fare
+  maxFare?: number;
+  // Only weekends where every member has a fare
+  fullCoverageOnly?: boolean;
+}
+
+export function resultKey(result: Pick<FlightSearchResult, 'origin' | 'destination' | 'departureDate' | 'returnDate'>): string {
+  return `${result.origin}|${result.destination}|${result.departureDate}|${result.returnDate}`;
+}
+
+// Drops blank and duplicate airports; the first entry for an airport wins
+export function normalizeTeamOrigins(origins: TeamOrigin[]): TeamOrigin[] {
+  const seen = new Set<string>();
+  const normalized: TeamOrigin[] = [];
+  for (const origin of origins) {
+    const airport = origin.airport.trim().toUpperCase();
+    if (!airport || seen.has(airport)) continue;
+    seen.add(airport);
+    normalized.push({ airport, headcount: Math.max(1, Math.floor(origin.headcount)) });
+  }
+  return normalized;
+}
+
+function cheapestByOriginAndWeekend(results: FlightSearchResult[]): Map<string, number | null> {
+  const fares = new Map<string, number | null>();
+  for (const result of results) {
+    const key = `${result.origin}|${result.destination}|${result.departureDate}`;
+    const cheapest = result.quotes.reduce<number | null>(
+      (min, q) => (min === null || q.priceUsd < min ? q.priceUsd : min),
+      null
+    );
+    const existing = fares.get(key);
+    fares.set(key, existing == null ? cheapest : cheapest === null ? existing : Math.min(existing, cheapest));
+  }
+  return fares;
+}
+
+// One row per weekend that at least one origin has searched
+export function buildTeamMatrix(
+  origins: TeamOrigin[],
+  buckets: WeekendBucket[],
+  results: FlightSearchResult[]
+): TeamWeekendRow[] {
+  const fares = cheapestByOriginAndWeekend(results);
+  const totalMembers = origins.reduce((sum, o) => sum + o.headcount, 0);
+  const rows: TeamWeekendRow[] = [];
+
+  for (const bucket of buckets) {
+    const rowFares: TeamFares = {};
+    let searched = false;
+    let totalCost = 0;
+    let maxFare: number | null = null;
+    let coveredMembers = 0;
+
+    for (const origin of origins) {
+      const key = `${origin.airport}|${bucket.key.airport}|${bucket.key.weekendStart}`;
+      if (!fares.has(key)) continue;
+      searched = true;
+      const fare = fares.get(key) ?? null;
+      rowFares[origin.airport] = fare;
+      if (fare === null) continue;
+      totalCost += fare * origin.headcount;
+      coveredMembers += origin.headcount;
+      maxFare = maxFare === null ? fare : Math.max(maxFare, fare);
+    }
+
+    if (searched) {
+      rows.push({ bucket, fares: rowFares, totalCost, maxFare, coveredMembers, totalMembers });
+    }
+  }
+  return rows;
+}
+
+export function filterTeamRows(rows: TeamWeekendRow[], filters: TeamFilters): TeamWeekendRow[] {
+  const search = filters.search?.trim().toLowerCase();
+  return rows.filter((row) => {
+    if (filters.airport && row.bucket.key.airport !== filters.airport) return false;
+    if (filters.state && !row.bucket.tournaments.some((t) => t.stateOrRegion === filters.state)) return false;
+    if (search && !row.bucket.tournaments.some((t) => t.name.toLowerCase().includes(search))) return false;
+    if (filters.maxFare && (row.maxFare === null || row.maxFare > filters.maxFare)) return false;
+    if (filters.fullCoverageOnly && row.coveredMembers < row.totalMembers) return false;
+    return true;
+  });
+}
+
+export function compareTeamRows(a: TeamWeekendRow, b: TeamWeekendRow, field: TeamSortField): number {
+  switch (field) {
+    case 'totalCost':
+      return a.totalCost - b.totalCost;
+    case 'maxFare':
+      // Weekends without any fare sort last
+      if (a.maxFare === null || b.maxFare === null) return (a.maxFare === null ? 1 : 0) - (b.maxFare === null ? 1 : 0);
+      return a.maxFare - b.maxFare;
+    case 'coverage':
+      return a.coveredMembers - b.coveredMembers;
+    case 'date':
+      return a.bucket.key.weekendStart.localeCompare(b.bucket.key.weekendStart);
+  }
+}
+
+// Default ranking: weekends more of the team can fly first, then cheapest for the group
+export function rankTeamRows(rows: TeamWeekendRow[]): TeamWeekendRow[] {
+  return [...rows].sort(
+    (a, b) => compareTeamRows(b, a, 'coverage') || compareTeamRows(a, b, 'totalCost') || compareTeamRows(a, b, 'date')
+  );
+}
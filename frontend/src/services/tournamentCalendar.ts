@@ -0,0 +1,104 @@
+// Month grids of weekend buckets for the tournament calendar.
+// Dates are handled as plain YYYY-MM-DD strings so a weekend never shifts a day across time zones.
+import type { WeekendBucket, WeekendQuote } from '@/types/api';
+
+export type FareStatus = 'unsearched' | 'no-flights' | 'low' | 'mid' | 'high';
+
+export interface CalendarEntry {
+  bucket: WeekendBucket;
+  cheapestFare: number | null;
+  status: FareStatus;
+}
+
+export interface CalendarDay {
+  // null for padding cells before the 1st and after the last day of the month
+  date: string | null;
+  day: number | null;
+  entries: CalendarEntry[];
+}
+
+export interface CalendarMonth {
+  key: string;
+  label: string;
+  weeks: CalendarDay[][];
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function monthLabel(year: number, month: number): string {
+  return new Date(year, month - 1, 1).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+}
+
+// Cheapest quoted fare per weekend; a weekend with a row but no quotes was searched without results
+function cheapestFares(quotes: WeekendQuote[]): Map<string, number | null> {
+  const fares = new Map<string, number | null>();
+  for (const wq of quotes) {
+    const key = `${wq.bucket.key.airport}|${wq.bucket.key.weekendStart}`;
+    const cheapest = wq.quotes.reduce<number | null>(
+      (min, q) => (min === null || q.priceUsd < min ? q.priceUsd : min),
+      null
+    );
+    const existing = fares.get(key);
+    fares.set(key, existing == null ? cheapest : cheapest === null ? existing : Math.min(existing, cheapest));
+  }
+  return fares;
+}
+
+// Priced weekends are split into thirds so colors stay meaningful for any fare range
+function fareTier(fare: number, sortedFares: number[]): FareStatus {
+  if (sortedFares.length < 3) return 'low';
+  const lowCut = sortedFares[Math.floor(sortedFares.length / 3)]!;
+  const highCut = sortedFares[Math.floor((sortedFares.length * 2) / 3)]!;
+  if (fare < lowCut) return 'low';
+  if (fare < highCut) return 'mid';
+  return 'high';
+}
+
+export function buildCalendarEntries(buckets: WeekendBucket[], quotes: WeekendQuote[]): CalendarEntry[] {
+  const fares = cheapestFares(quotes);
+  const sortedFares = [...fares.values()].filter((f): f is number => f !== null).sort((a, b) => a - b);
+
+  return buckets.map((bucket) => {
+    const key = `${bucket.key.airport}|${bucket.key.weekendStart}`;
+    if (!fares.has(key)) return { bucket, cheapestFare: null, status: 'unsearched' };
+    const fare = fares.get(key) ?? null;
+    if (fare === null) return { bucket, cheapestFare: null, status: 'no-flights' };
+    return { bucket, cheapestFare: fare, status: fareTier(fare, sortedFares) };
+  });
+}
+
+// One month grid (Sunday-first weeks) for every month that has a weekend bucket
+export function buildCalendarMonths(entries: CalendarEntry[]): CalendarMonth[] {
+  const byDate = new Map<string, CalendarEntry[]>();
+  for (const entry of entries) {
+    const date = entry.bucket.key.weekendStart;
+    const list = byDate.get(date) ?? [];
+    list.push(entry);
+    byDate.set(date, list);
+  }
+
+  const monthKeys = [...new Set([...byDate.keys()].map((d) => d.slice(0, 7)))].sort();
+
+  return monthKeys.map((key) => {
+    const [year, month] = key.split('-').map(Number) as [number, number];
+    const firstWeekday = new Date(year, month - 1, 1).getDay();
+    const daysInMonth = new Date(year, month, 0).getDate();
+
+    const cells: CalendarDay[] = Array.from({ length: firstWeekday }, () => ({ date: null, day: null, entries: [] }));
+    for (let day = 1; day <= daysInMonth; day++) {
+      const date = `${key}-${pad(day)}`;
+      const dayEntries = (byDate.get(date) ?? []).sort((a, b) =>
+        a.bucket.key.airport.localeCompare(b.bucket.key.airport)
+      );
+      cells.push({ date, day, entries: dayEntries });
+    }
+    while (cells.length % 7 !== 0) cells.push({ date: null, day: null, entries: [] });
+
+    const weeks: CalendarDay[][] = [];
+    for (let i = 0; i < cells.length; i += 7) weeks.push(cells.slice(i, i + 7));
+
+    return { key, label: monthLabel(year, month), weeks };
+  });
+}
@@ -0,0 +1,148 @@
+// Whole-trip cost for a weekend: airfare plus lodging and ground transport at the destination
+// metro and the tournament entry fee. Metro rates start from a built-in table of rough
+// estimates and can be edited; edits and entry fees are kept in localStorage.
+import type { FlightQuote, WeekendBucket } from '@/types/api';
+
+const STORAGE_KEY = 'trip-cost-settings';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MetroCosts {
+  // Hotel for one night, USD
+  lodgingPerNight: number;
+  // Rental car, rideshare or transit for one day, USD
+  groundPerDay: number;
+}
+
+export interface TripCostSettings {
+  // Overrides of DEFAULT_METRO_COSTS, keyed by WeekendKey.airport
+  metros: Record<string, MetroCosts>;
+  // Entry fee per tournament name, USD
+  entryFees: Record<string, number>;
+}
+
+// Used for airports missing from the table below
+export const FALLBACK_METRO_COSTS: MetroCosts = { lodgingPerNight: 140, groundPerDay: 45 };
+
+// Mid-range hotel and ground transport estimates by destination airport
+export const DEFAULT_METRO_COSTS: Record<string, MetroCosts> = {
+  ATL: { lodgingPerNight: 150, groundPerDay: 45 },
+  AUS: { lodgingPerNight: 175, groundPerDay: 45 },
+  BOS: { lodgingPerNight: 240, groundPerDay: 40 },
+  BWI: { lodgingPerNight: 145, groundPerDay: 45 },
+  CLT: { lodgingPerNight: 140, groundPerDay: 40 },
+  CMH: { lodgingPerNight: 125, groundPerDay: 40 },
+  DCA: { lodgingPerNight: 220, groundPerDay: 35 },
+  DEN: { lodgingPerNight: 165, groundPerDay: 50 },
+  DFW: { lodgingPerNight: 145, groundPerDay: 55 },
+  DTW: { lodgingPerNight: 125, groundPerDay: 50 },
+  EWR: { lodgingPerNight: 190, groundPerDay: 50 },
+  FLL: { lodgingPerNight: 170, groundPerDay: 45 },
+  HNL: { lodgingPerNight: 260, groundPerDay: 55 },
+  IAD: { lodgingPerNight: 170, groundPerDay: 50 },
+  IAH: { lodgingPerNight: 130, groundPerDay: 55 },
+  JFK: { lodgingPerNight: 280, groundPerDay: 45 },
+  LAS: { lodgingPerNight: 130, groundPerDay: 40 },
+  LAX: { lodgingPerNight: 210, groundPerDay: 60 },
+  LGA: { lodgingPerNight: 280, groundPerDay: 45 },
+  MCI: { lodgingPerNight: 120, groundPerDay: 45 },
+  MCO: { lodgingPerNight: 145, groundPerDay: 50 },
+  MIA: { lodgingPerNight: 200, groundPerDay: 50 },
+  MSP: { lodgingPerNight: 140, groundPerDay: 45 },
+  ORD: { lodgingPerNight: 185, groundPerDay: 40 },
+  PDX: { lodgingPerNight: 160, groundPerDay: 40 },
+  PHL: { lodgingPerNight: 175, groundPerDay: 40 },
+  PHX: { lodgingPerNight: 140, groundPerDay: 50 },
+  RDU: { lodgingPerNight: 130, groundPerDay: 45 },
+  SAN: { lodgingPerNight: 200, groundPerDay: 50 },
+  SEA: { lodgingPerNight: 200, groundPerDay: 45 },
+  SFO: { lodgingPerNight: 250, groundPerDay: 50 },
+  SJC: { lodgingPerNight: 210, groundPerDay: 55 },
+  SLC: { lodgingPerNight: 140, groundPerDay: 45 },
+  SNA: { lodgingPerNight: 190, groundPerDay: 55 },
+  STL: { lodgingPerNight: 125, groundPerDay: 45 },
+  TPA: { lodgingPerNight: 150, groundPerDay: 45 },
+};
+
+export interface TripCostBreakdown {
+  airfare: number;
+  nights: number;
+  lodgingPerNight: number;
+  lodging: number;
+  days: number;
+  groundPerDay: number;
+  ground: number;
+  entryFee: number;
+  // Tournament the entry fee belongs to, when one is set
+  entryFeeTournament: string | null;
+  total: number;
+  // Metro rates come from the built-in table rather than the user's own numbers
+  isDefaultRate: boolean;
+}
+
+export function emptyTripCostSettings(): TripCostSettings {
+  return { metros: {}, entryFees: {} };
+}
+
+export function loadTripCostSettings(): TripCostSettings {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Partial<TripCostSettings>;
+    return { metros: parsed.metros ?? {}, entryFees: parsed.entryFees ?? {} };
+  } catch {
+    return emptyTripCostSettings();
+  }
+}
+
+export function saveTripCostSettings(settings: TripCostSettings): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function metroCosts(airport: string, settings: TripCostSettings): MetroCosts {
+  return settings.metros[airport] ?? DEFAULT_METRO_COSTS[airport] ?? FALLBACK_METRO_COSTS;
+}
+
+// Nights away from the quote's own dates; tripDurationDays covers quotes without usable dates
+export function tripNights(quote: FlightQuote, tripDurationDays: number): number {
+  const depart = Date.parse(`${quote.departureDate}T00:00:00Z`);
+  const back = Date.parse(`${quote.returnDate}T00:00:00Z`);
+  if (!isNaN(depart) && !isNaN(back) && back > depart) return Math.round((back - depart) / DAY_MS);
+  return Math.max(0, tripDurationDays);
+}
+
+// A player enters one tournament per weekend, so the highest fee set for the weekend counts
+function entryFeeFor(bucket: WeekendBucket, settings: TripCostSettings): { fee: number; tournament: string | null } {
+  let best = { fee: 0, tournament: null as string | null };
+  for (const t of bucket.tournaments) {
+    const fee = settings.entryFees[t.name];
+    if (fee !== undefined && fee > best.fee) best = { fee, tournament: t.name };
+  }
+  return best;
+}
+
+export function tripCost(
+  bucket: WeekendBucket,
+  quote: FlightQuote,
+  tripDurationDays: number,
+  settings: TripCostSettings
+): TripCostBreakdown {
+  const rates = metroCosts(bucket.key.airport, settings);
+  const nights = tripNights(quote, tripDurationDays);
+  // Ground transport is needed on the arrival and departure days too
+  const days = nights + 1;
+  const lodging = nights * rates.lodgingPerNight;
+  const ground = days * rates.groundPerDay;
+  const { fee, tournament } = entryFeeFor(bucket, settings);
+
+  return {
+    airfare: quote.priceUsd,
+    nights,
+    lodgingPerNight: rates.lodgingPerNight,
+    lodging,
+    days,
+    groundPerDay: rates.groundPerDay,
+    ground,
+    entryFee: fee,
+    entryFeeTournament: tournament,
+    total: quote.priceUsd + lodging + ground + fee,
+    isDefaultRate: !(bucket.key.airport in settings.metros),
+  };
+}
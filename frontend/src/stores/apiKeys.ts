@@ -0,0 +1,171 @@
+import { defineStore } from 'pinia';
+import { ref, shallowRef, computed, watch } from 'vue';
+import { api, ApiError } from '@/services/api';
+import { useSessionStore } from '@/stores/session';
+import { useNotificationsStore } from '@/stores/notifications';
+import {
+  appendSnapshot,
+  forecastUsage,
+  mergeKeys,
+  loadUsageSnapshots,
+  maskKey,
+  saveUsageSnapshots,
+  snapshotFromUsage,
+} from '@/services/apiKeys';
+import type { UsageSnapshot } from '@/services/apiKeys';
+import type { ApiKeyUsage } from '@/types/api';
+
+export const useApiKeysStore = defineStore('apiKeys', () => {
+  const sessionStore = useSessionStore();
+  const notificationsStore = useNotificationsStore();
+
+  // State
+  // Account status per raw key from POST /api/keys/validate; kept in memory only
+  const validation = shallowRef<Map<string, ApiKeyUsage>>(new Map());
+  const isValidating = ref(false);
+  const isUpdating = ref(false);
+  const error = ref<string | null>(null);
+  const snapshots = ref<UsageSnapshot[]>(loadUsageSnapshots());
+  // "maskedKey|error" pairs already reported, so each key problem is notified once
+  const reportedKeyErrors = new Set<string>();
+
+  // Getters
+  const forecast = computed(() => forecastUsage(snapshots.value, sessionStore.apiKeyUsage));
+
+  function validationFor(key: string): ApiKeyUsage | undefined {
+    return validation.value.get(key.trim());
+  }
+
+  // Actions
+  // Look up each key's account; keys already checked are not sent again
+  async function validateKeys(keys: string[]): Promise<boolean> {
+    const pending = [...new Set(keys.map((k) => k.trim()).filter(Boolean))].filter((k) => !validation.value.has(k));
+    if (pending.length === 0) return true;
+
+    isValidating.value = true;
+    error.value = null;
+    try {
+      const response = await api.validateApiKeys(pending);
+      const next = new Map(validation.value);
+      pending.forEach((key, i) => {
+        const usage = response.keys[i];
+        if (usage) next.set(key, usage);
+      });
+      validation.value = next;
+      return true;
+    } catch (e) {
+      error.value = e instanceof Error ? `Could not check keys: ${e.message}` : 'Could not check keys';
+      return false;
+    } finally {
+      isValidating.value = false;
+    }
+  }
+
+  function handleError(e: unknown, fallback: string): void {
+    if (e instanceof ApiError && e.isSessionExpired) {
+      sessionStore.expireSession();
+    } else {
+      error.value = e instanceof Error ? e.message : fallback;
+      notificationsStore.reportError(e, 'apiKeys', fallback);
+    }
+  }
+
+  // Resolves to how many keys were new to the session (the backend ignores ones it already has)
+  async function addKeys(keys: string[]): Promise<number | null> {
+    const sessionId = sessionStore.sessionId;
+    if (!sessionId || keys.length === 0) return null;
+
+    isUpdating.value = true;
+    error.value = null;
+    try {
+      const before = sessionStore.apiKeyUsage.length;
+      const response = await api.addApiKeys(sessionId, keys);
+      sessionStore.sessionKeys = mergeKeys(sessionStore.sessionKeys, keys).keys;
+      await Promise.all([sessionStore.refreshApiKeyUsage(), sessionStore.refreshSessionInfo()]);
+      return response.apiKeyCount - before;
+    } catch (e) {
+      handleError(e, 'Failed to add API keys');
+      return null;
+    } finally {
+      isUpdating.value = false;
+    }
+  }
+
+  // `index` and `maskedKey` identify the key in sessionStore.apiKeyUsage; the server checks both
+  async function removeKey(index: number, maskedKey: string): Promise<boolean> {
+    const sessionId = sessionStore.sessionId;
+    if (!sessionId) return false;
+
+    isUpdating.value = true;
+    error.value = null;
+    try {
+      // Remembered keys line up with the usage list only if this tab created the session
+      const remembered = sessionStore.sessionKeys.length === sessionStore.apiKeyUsage.length;
+      await api.removeApiKey(sessionId, index, maskedKey);
+      if (remembered && maskKey(sessionStore.sessionKeys[index] ?? '') === maskedKey) {
+        sessionStore.sessionKeys = sessionStore.sessionKeys.filter((_, i) => i !== index);
+      }
+      await Promise.all([sessionStore.refreshApiKeyUsage(), sessionStore.refreshSessionInfo()]);
+      return true;
+    } catch (e) {
+      handleError(e, 'Failed to remove API key');
+      // The list changed under us; show the current one
+      if (e instanceof ApiError && e.status === 409) await sessionStore.refreshApiKeyUsage();
+      return false;
+    } finally {
+      isUpdating.value = false;
+    }
+  }
+
+  function clearValidation(): void {
+    validation.value = new Map();
+    error.value = null;
+  }
+
+  // A key SerpAPI rejects is worth knowing about without opening the usage popover
+  watch(
+    () => sessionStore.apiKeyUsage,
+    (usage) => {
+      for (const key of usage) {
+        if (!key.error || reportedKeyErrors.has(`${key.maskedKey}|${key.error}`)) continue;
+        reportedKeyErrors.add(`${key.maskedKey}|${key.error}`);
+        notificationsStore.notify({
+          severity: 'warning',
+          source: 'refreshApiKeyUsage',
+          message: `Key ${key.maskedKey}: ${key.error}`,
+          endpoint: 'GET /api/keys/usage',
+          background: true,
+        });
+      }
+    }
+  );
+
+  // Every usage refresh becomes a snapshot for the forecast; demo keys are not real accounts
+  watch(
+    () => sessionStore.apiKeyUsage,
+    (usage) => {
+      if (sessionStore.isDemo) return;
+      const snapshot = snapshotFromUsage(usage);
+      if (!snapshot) return;
+      snapshots.value = appendSnapshot(snapshots.value, snapshot);
+      saveUsageSnapshots(snapshots.value);
+    }
+  );
+
+  return {
+    // State
+    validation,
+    isValidating,
+    isUpdating,
+    error,
+    snapshots,
+    // Getters
+    forecast,
+    validationFor,
+    // Actions
+    validateKeys,
+    addKeys,
+    removeKey,
+    clearValidation,
+  };
+});
@@ -0,0 +1,179 @@
+import { defineStore } from 'pinia';
+import { ref, computed, watch } from 'vue';
+import { useSessionStore } from '@/stores/session';
+import { ApiError } from '@/services/api';
+import {
+  isFareWatchDue,
+  cheapestFare,
+  shouldAlert,
+  showBrowserNotification,
+  requestNotificationPermission,
+  browserNotificationsSupported,
+  FARE_WATCH_QUOTA_RESERVE,
+} from '@/services/fareWatch';
+import type { FareAlert, FareWatch } from '@/services/fareWatch';
+
+// How often the scheduler looks for due watches
+const SCHEDULER_TICK_MS = 60 * 1000;
+const MAX_ALERTS = 50;
+
+export const useFareAlertsStore = defineStore('fareAlerts', () => {
+  const sessionStore = useSessionStore();
+
+  // State
+  const alerts = ref<FareAlert[]>([]);
+  const unreadCount = ref(0);
+  const checkingIds = ref<Set<string>>(new Set());
+  // Set when due checks were postponed to protect the remaining quota
+  const isQuotaLimited = ref(false);
+  const notificationPermission = ref<NotificationPermission>(
+    browserNotificationsSupported() ? Notification.permission : 'denied'
+  );
+
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let isTicking = false;
+
+  // Getters
+  const watches = computed(() => sessionStore.fareWatches);
+  const isChecking = computed(() => checkingIds.value.size > 0);
+
+  function watchFor(airport: string, weekendStart: string): FareWatch | undefined {
+    return watches.value.find((w) => w.key.airport === airport && w.key.weekendStart === weekendStart);
+  }
+
+  // Actions
+  async function checkWatch(watch: FareWatch): Promise<void> {
+    if (checkingIds.value.has(watch.id)) return;
+    checkingIds.value.add(watch.id);
+    // Claim the check first so other tabs on this session skip it
+    sessionStore.updateFareWatch(watch.id, { lastCheckedAt: new Date().toISOString() });
+
+    try {
+      // Cached fares would only repeat the last check, so always ask SerpAPI
+      const response = await sessionStore.searchRoute({
+        destinationAirport: watch.key.airport,
+        departureDate: watch.key.weekendStart,
+        skipCache: true,
+      });
+      const price = cheapestFare(response.results);
+      const current = watches.value.find((w) => w.id === watch.id);
+      if (!current) return;
+
+      if (shouldAlert(current, price)) {
+        raiseAlert(current, price);
+        sessionStore.updateFareWatch(watch.id, { lastPriceUsd: price, lastError: undefined, alertedPriceUsd: price });
+      } else {
+        const rearm = price === null || price > current.maxPriceUsd;
+        sessionStore.updateFareWatch(watch.id, {
+          lastPriceUsd: price,
+          lastError: undefined,
+          ...(rearm ? { alertedPriceUsd: undefined } : {}),
+        });
+      }
+    } catch (e) {
+      if (e instanceof ApiError && e.isSessionExpired) return;
+      sessionStore.updateFareWatch(watch.id, {
+        lastError: e instanceof Error ? e.message : 'Check failed',
+      });
+    } finally {
+      checkingIds.value.delete(watch.id);
+    }
+  }
+
+  function raiseAlert(watch: FareWatch, priceUsd: number): void {
+    const alert: FareAlert = {
+      id: `${watch.id}|${Date.now()}`,
+      watchId: watch.id,
+      key: watch.key,
+      priceUsd,
+      maxPriceUsd: watch.maxPriceUsd,
+      raisedAt: new Date().toISOString(),
+    };
+    alerts.value = [alert, ...alerts.value].slice(0, MAX_ALERTS);
+    unreadCount.value++;
+    showBrowserNotification(alert);
+  }
+
+  // Check due watches, leaving FARE_WATCH_QUOTA_RESERVE searches for the user
+  async function checkDueWatches(): Promise<void> {
+    // A running search already spends quota and refreshes the same quotes
+    if (isTicking || sessionStore.isSearching) return;
+    const due = watches.value.filter((w) => isFareWatchDue(w));
+    if (due.length === 0) {
+      isQuotaLimited.value = false;
+      return;
+    }
+
+    isTicking = true;
+    try {
+      await sessionStore.refreshApiKeyUsage();
+      const budget = sessionStore.totalRemainingSearches - FARE_WATCH_QUOTA_RESERVE;
+      isQuotaLimited.value = budget < due.length;
+      for (const watch of due.slice(0, Math.max(budget, 0))) {
+        if (!sessionStore.isAuthenticated) break;
+        await checkWatch(watch);
+      }
+    } finally {
+      isTicking = false;
+    }
+  }
+
+  async function enableNotifications(): Promise<void> {
+    notificationPermission.value = await requestNotificationPermission();
+  }
+
+  function markAlertsRead(): void {
+    unreadCount.value = 0;
+  }
+
+  function clearAlerts(): void {
+    alerts.value = [];
+    unreadCount.value = 0;
+  }
+
+  function startScheduler(): void {
+    if (timer) return;
+    timer = setInterval(checkDueWatches, SCHEDULER_TICK_MS);
+    checkDueWatches();
+  }
+
+  function stopScheduler(): void {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  }
+
+  // Only poll while there is a session with something to watch
+  watch(
+    () => sessionStore.isAuthenticated && watches.value.length > 0,
+    (active) => {
+      if (active) {
+        startScheduler();
+      } else {
+        stopScheduler();
+        if (!sessionStore.isAuthenticated) clearAlerts();
+      }
+    },
+    { immediate: true }
+  );
+
+  return {
+    // State
+    alerts,
+    unreadCount,
+    checkingIds,
+    isQuotaLimited,
+    notificationPermission,
+    // Getters
+    watches,
+    isChecking,
+    watchFor,
+    // Actions
+    checkWatch,
+    checkDueWatches,
+    enableNotifications,
+    markAlertsRead,
+    clearAlerts,
+  };
+});
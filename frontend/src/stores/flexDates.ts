@@ -0,0 +1,127 @@
+import { defineStore } from 'pinia';
+import { ref, watch } from 'vue';
+import { api, ApiError } from '@/services/api';
+import { useSessionStore } from '@/stores/session';
+import { flexKey, isEntryFresh, entryFromWeekendQuote } from '@/services/flexDates';
+import type { FlexCombo, FlexEntry } from '@/services/flexDates';
+import type { WeekendKey } from '@/types/api';
+
+export const useFlexDatesStore = defineStore('flexDates', () => {
+  const sessionStore = useSessionStore();
+
+  // State
+  // Every flex result this page has received, keyed by origin, destination and dates
+  const entries = ref<Map<string, FlexEntry>>(new Map());
+  // Weekend currently being searched, as "AIRPORT|weekendStart"
+  const runningKey = ref<string | null>(null);
+  const completed = ref(0);
+  const total = ref(0);
+  const servedFromCache = ref(0);
+  const error = ref<string | null>(null);
+
+  let cancelled = false;
+  let abortController: AbortController | null = null;
+
+  // Getters
+  // A previous flex result, or the session's own weekend row for the default dates
+  function lookup(key: WeekendKey, combo: FlexCombo): FlexEntry | null {
+    const origin = sessionStore.config.originAirport ?? '';
+    const stored = entries.value.get(flexKey(origin, key.airport, combo.departureDate, combo.returnDate));
+    if (stored) return stored;
+    if (combo.departureDate !== key.weekendStart) return null;
+
+    const wq = sessionStore.quotes.find(
+      (q) => q.bucket.key.airport === key.airport && q.bucket.key.weekendStart === key.weekendStart
+    );
+    const entry = wq ? entryFromWeekendQuote(wq, origin) : null;
+    return entry && entry.result.returnDate === combo.returnDate ? entry : null;
+  }
+
+  function isCached(key: WeekendKey, combo: FlexCombo): boolean {
+    const entry = lookup(key, combo);
+    return entry !== null && isEntryFresh(entry);
+  }
+
+  // Actions
+  // Search each combination without a fresh result, one at a time
+  async function runFlexSearch(key: WeekendKey, combos: FlexCombo[]): Promise<void> {
+    const sessionId = sessionStore.sessionId;
+    if (!sessionId || runningKey.value) return;
+
+    const pending = combos.filter((combo) => !isCached(key, combo));
+    runningKey.value = `${key.airport}|${key.weekendStart}`;
+    completed.value = 0;
+    total.value = pending.length;
+    servedFromCache.value = 0;
+    error.value = null;
+    cancelled = false;
+
+    try {
+      for (const combo of pending) {
+        if (cancelled) break;
+        abortController = new AbortController();
+        const response = await api.searchFlights(
+          sessionId,
+          {
+            destinationAirport: key.airport,
+            departureDate: combo.departureDate,
+            returnDate: combo.returnDate,
+            // Off-weekend dates must not replace the weekend's own quotes in the session
+            persist: false,
+          },
+          { signal: abortController.signal }
+        );
+        const next = new Map(entries.value);
+        for (const result of response.results) {
+          next.set(
+            flexKey(result.origin, result.destination, result.departureDate, result.returnDate),
+            { result, receivedAt: Date.now() }
+          );
+          if (result.cacheInfo.fromCache) servedFromCache.value++;
+        }
+        entries.value = next;
+        completed.value++;
+      }
+    } catch (e) {
+      if (e instanceof ApiError && e.isSessionExpired) {
+        sessionStore.expireSession();
+      } else if (!(e instanceof ApiError && e.isAborted)) {
+        error.value = e instanceof Error ? e.message : 'Flexible date search failed';
+      }
+    } finally {
+      runningKey.value = null;
+      abortController = null;
+      if (sessionStore.isAuthenticated) await sessionStore.refreshApiKeyUsage();
+    }
+  }
+
+  function cancelFlexSearch(): void {
+    cancelled = true;
+    abortController?.abort();
+  }
+
+  // Results belong to the session (and origin) that produced them
+  watch(
+    () => sessionStore.sessionId,
+    () => {
+      cancelFlexSearch();
+      entries.value = new Map();
+    }
+  );
+
+  return {
+    // State
+    entries,
+    runningKey,
+    completed,
+    total,
+    servedFromCache,
+    error,
+    // Getters
+    lookup,
+    isCached,
+    // Actions
+    runFlexSearch,
+    cancelFlexSearch,
+  };
+});
@@ -0,0 +1,127 @@
+import { defineStore } from 'pinia';
+import { ref, computed, watch } from 'vue';
+import { api, ApiError } from '@/services/api';
+import { useSessionStore } from '@/stores/session';
+import {
+  expiryLevel,
+  healthFromError,
+  healthFromResponse,
+  nextHealthPollDelay,
+  sessionTimeLeft,
+} from '@/services/health';
+import type { HealthCheck } from '@/services/health';
+
+export const useHealthStore = defineStore('health', () => {
+  const sessionStore = useSessionStore();
+
+  // State
+  const lastCheck = ref<HealthCheck>({
+    status: 'unknown',
+    checkedAt: new Date().toISOString(),
+    latencyMs: null,
+    activeSessions: null,
+    detail: null,
+  });
+  // Consecutive checks that did not find the backend up
+  const failures = ref(0);
+  const isChecking = ref(false);
+  const nextCheckAt = ref<number | null>(null);
+  // Ticks every second while monitoring, for the session countdown
+  const now = ref(Date.now());
+
+  let monitoring = false;
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+  let clockTimer: ReturnType<typeof setInterval> | null = null;
+
+  // Getters
+  const status = computed(() => lastCheck.value.status);
+  const timeLeftMs = computed(() => sessionTimeLeft(sessionStore.sessionInfo?.expiresAt, now.value));
+  const expiry = computed(() => expiryLevel(timeLeftMs.value));
+
+  // Actions
+  async function checkHealth(): Promise<void> {
+    if (isChecking.value) return;
+    isChecking.value = true;
+    const previous = lastCheck.value.status;
+    const started = performance.now();
+    try {
+      const response = await api.getHealth();
+      lastCheck.value = healthFromResponse(response, Math.round(performance.now() - started));
+    } catch (e) {
+      const error = e instanceof ApiError ? e : new ApiError(0, { error: 'Health check failed' }, 'network');
+      lastCheck.value = healthFromError(error);
+    } finally {
+      isChecking.value = false;
+    }
+    failures.value = lastCheck.value.status === 'up' ? 0 : failures.value + 1;
+
+    // Back after an outage: the backend keeps sessions in memory, so a restart loses ours
+    if (previous === 'down' && lastCheck.value.status !== 'down' && sessionStore.sessionId) {
+      await sessionStore.refreshSessionInfo();
+    }
+  }
+
+  function schedulePoll(): void {
+    if (pollTimer) clearTimeout(pollTimer);
+    const delay = nextHealthPollDelay(lastCheck.value.status, failures.value);
+    nextCheckAt.value = Date.now() + delay;
+    pollTimer = setTimeout(async () => {
+      await checkHealth();
+      if (monitoring) schedulePoll();
+    }, delay);
+  }
+
+  // Also resets the backoff timer, for the "Check now" button
+  async function checkNow(): Promise<void> {
+    await checkHealth();
+    if (monitoring) schedulePoll();
+  }
+
+  // A tab coming back into view or a network reconnect is worth checking right away
+  function handleWake(): void {
+    if (document.visibilityState === 'visible') void checkNow();
+  }
+
+  function startMonitoring(): void {
+    if (monitoring) return;
+    monitoring = true;
+    clockTimer = setInterval(() => (now.value = Date.now()), 1000);
+    document.addEventListener('visibilitychange', handleWake);
+    window.addEventListener('online', handleWake);
+    void checkNow();
+  }
+
+  function stopMonitoring(): void {
+    monitoring = false;
+    if (pollTimer) clearTimeout(pollTimer);
+    if (clockTimer) clearInterval(clockTimer);
+    pollTimer = null;
+    clockTimer = null;
+    nextCheckAt.value = null;
+    document.removeEventListener('visibilitychange', handleWake);
+    window.removeEventListener('online', handleWake);
+  }
+
+  // The backend would reject the next request anyway; end the session on time instead
+  watch(expiry, (level) => {
+    if (level === 'expired' && sessionStore.sessionId) sessionStore.expireSession();
+  });
+
+  return {
+    // State
+    lastCheck,
+    failures,
+    isChecking,
+    nextCheckAt,
+    now,
+    // Getters
+    status,
+    timeLeftMs,
+    expiry,
+    // Actions
+    checkHealth,
+    checkNow,
+    startMonitoring,
+    stopMonitoring,
+  };
+});
@@ -0,0 +1,88 @@
+import { defineStore } from 'pinia';
+import { ref, computed } from 'vue';
+import { addNotification, createNotification, notificationFromError } from '@/services/notifications';
+import type { AppNotification, NotificationInput, NotificationSource } from '@/services/notifications';
+
+type RetryHandler = () => unknown;
+
+export const useNotificationsStore = defineStore('notifications', () => {
+  // State
+  // Newest first; kept in memory for the life of the tab
+  const notifications = ref<AppNotification[]>([]);
+  // The most recent notification that was not a repeat, for the toast stream
+  const latest = ref<AppNotification | null>(null);
+
+  // Retries are closures over the failed call, so they live beside the notifications, not in them
+  const retryHandlers = new Map<string, RetryHandler>();
+
+  // Getters
+  const unreadCount = computed(() => notifications.value.filter((n) => !n.read && n.severity !== 'success').length);
+
+  function canRetry(id: string): boolean {
+    return retryHandlers.has(id);
+  }
+
+  function find(id: string | null): AppNotification | undefined {
+    return id ? notifications.value.find((n) => n.id === id) : undefined;
+  }
+
+  // Actions
+  function notify(input: NotificationInput, retry?: RetryHandler): AppNotification {
+    const result = addNotification(notifications.value, createNotification(input));
+    notifications.value = result.notifications;
+    const notification = result.notifications[0]!;
+    if (retry && notification.retryable) retryHandlers.set(notification.id, retry);
+    if (!result.isRepeat) latest.value = notification;
+    return notification;
+  }
+
+  // Records a failed action; null when the error was a cancelled request
+  function reportError(
+    e: unknown,
+    source: NotificationSource,
+    fallback: string,
+    options: { retry?: RetryHandler; background?: boolean } = {}
+  ): AppNotification | null {
+    const input = notificationFromError(e, source, fallback, options.background);
+    return input ? notify(input, options.retry) : null;
+  }
+
+  // The retry reports its own notification if it fails again
+  async function retry(id: string): Promise<void> {
+    const handler = retryHandlers.get(id);
+    if (!handler) return;
+    dismiss(id);
+    await handler();
+  }
+
+  function dismiss(id: string): void {
+    notifications.value = notifications.value.filter((n) => n.id !== id);
+    retryHandlers.delete(id);
+  }
+
+  function markAllRead(): void {
+    notifications.value = notifications.value.map((n) => (n.read ? n : { ...n, read: true }));
+  }
+
+  function clearNotifications(): void {
+    notifications.value = [];
+    retryHandlers.clear();
+  }
+
+  return {
+    // State
+    notifications,
+    latest,
+    // Getters
+    unreadCount,
+    canRetry,
+    find,
+    // Actions
+    notify,
+    reportError,
+    retry,
+    dismiss,
+    markAllRead,
+    clearNotifications,
+  };
+});
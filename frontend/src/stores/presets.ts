@@ -0,0 +1,126 @@
+import { defineStore } from 'pinia';
+import { ref } from 'vue';
+import { useSessionStore } from '@/stores/session';
+import { diffConfig } from '@/services/sessionConfig';
+import { downloadFile, exportFilename } from '@/services/exporters';
+import {
+  createPreset,
+  loadPresets,
+  mergePresets,
+  parsePresetFile,
+  presetConfigErrors,
+  presetsToJson,
+  savePresets,
+} from '@/services/presets';
+import type { PresetImport, SearchPreset } from '@/services/presets';
+import type { QuoteQuery, SortState } from '@/services/quoteQuery';
+import type { SearchFlightsRequest, SessionConfig } from '@/types/api';
+
+export const usePresetsStore = defineStore('presets', () => {
+  const sessionStore = useSessionStore();
+
+  // State
+  const presets = ref<SearchPreset[]>(loadPresets());
+  // Picked on the setup screen; FlightSearch applies its filters once the session exists
+  const pendingPreset = ref<SearchPreset | null>(null);
+  const isApplying = ref(false);
+  const error = ref<string | null>(null);
+
+  function persist(next: SearchPreset[]): void {
+    presets.value = next;
+    savePresets(next);
+  }
+
+  // Actions
+  // Saving under an existing name overwrites that preset
+  function savePreset(
+    name: string,
+    config: SessionConfig,
+    filters: QuoteQuery,
+    sort: SortState,
+    search: SearchFlightsRequest
+  ): SearchPreset {
+    const preset = createPreset(name, config, filters, sort, search);
+    persist(mergePresets(presets.value, [preset]).presets);
+    return presets.value.find((p) => p.name.toLowerCase() === preset.name.toLowerCase()) ?? preset;
+  }
+
+  function removePreset(id: string): void {
+    persist(presets.value.filter((p) => p.id !== id));
+  }
+
+  function exportPresets(): void {
+    downloadFile(exportFilename('presets', 'json'), presetsToJson(presets.value), 'json');
+  }
+
+  // Presets with invalid settings are left out and named in the result
+  function importPresets(text: string): PresetImport | null {
+    error.value = null;
+    try {
+      const incoming = parsePresetFile(text);
+      const valid = incoming.filter((p) => presetConfigErrors(p).length === 0);
+      const rejected = incoming.filter((p) => !valid.includes(p)).map((p) => p.name);
+      if (valid.length === 0) throw new Error(`every preset has invalid settings (${rejected.join(', ')})`);
+      const merge = mergePresets(presets.value, valid);
+      persist(merge.presets);
+      return { ...merge, rejected };
+    } catch (e) {
+      error.value = e instanceof Error ? `Could not import presets: ${e.message}` : 'Could not import presets';
+      return null;
+    }
+  }
+
+  async function importPresetFile(file: File): Promise<PresetImport | null> {
+    try {
+      return importPresets(await file.text());
+    } catch {
+      error.value = `Could not read ${file.name}`;
+      return null;
+    }
+  }
+
+  // Presets saved before validation existed, or edited in storage, are checked before use
+  function checkPreset(preset: SearchPreset): boolean {
+    const errors = presetConfigErrors(preset);
+    error.value = errors.length > 0 ? `Preset "${preset.name}" has invalid settings: ${errors.join('; ')}` : null;
+    return errors.length === 0;
+  }
+
+  // Sends only the config fields that differ, then reloads quotes for the new config.
+  // Filters, sort and search options are view state, applied by the caller.
+  async function applyPreset(preset: SearchPreset): Promise<boolean> {
+    if (!checkPreset(preset)) return false;
+    isApplying.value = true;
+    try {
+      const patch = diffConfig(sessionStore.config, preset.config);
+      if (Object.keys(patch).length > 0 && !(await sessionStore.updateConfig(patch))) return false;
+      await sessionStore.fetchQuotes();
+      return true;
+    } finally {
+      isApplying.value = false;
+    }
+  }
+
+  function takePendingPreset(): SearchPreset | null {
+    const preset = pendingPreset.value;
+    pendingPreset.value = null;
+    return preset;
+  }
+
+  return {
+    // State
+    presets,
+    pendingPreset,
+    isApplying,
+    error,
+    // Actions
+    savePreset,
+    removePreset,
+    exportPresets,
+    importPresets,
+    importPresetFile,
+    checkPreset,
+    applyPreset,
+    takePendingPreset,
+  };
+});
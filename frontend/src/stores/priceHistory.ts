@@ -0,0 +1,110 @@
+import { defineStore } from 'pinia';
+import { shallowRef, ref, watch } from 'vue';
+import { useSessionStore } from '@/stores/session';
+import {
+  loadPriceHistory,
+  savePriceObservations,
+  clearPriceHistory,
+  observationsFromQuotes,
+  isNewObservation,
+  priceSeriesKey,
+  priceChange,
+} from '@/services/priceHistory';
+import type { PricePoint, PriceSeries } from '@/services/priceHistory';
+import type { FlightQuote, WeekendBucket, WeekendQuote } from '@/types/api';
+
+export const usePriceHistoryStore = defineStore('priceHistory', () => {
+  const sessionStore = useSessionStore();
+
+  // State
+  // Replaced (not mutated) on every change so computed rows re-render
+  const series = shallowRef<PriceSeries>(new Map());
+  const isAvailable = ref(true);
+
+  // Quotes seen before the stored history finished loading
+  let pending: WeekendQuote[] = [];
+  let loaded = false;
+
+  // Getters
+  function pointsFor(bucket: WeekendBucket, quote: FlightQuote): PricePoint[] {
+    return series.value.get(priceSeriesKey(quote.origin, bucket.key.airport, bucket.key.weekendStart, quote.airline)) ?? [];
+  }
+
+  // Fare change since the previous check; negative when it dropped
+  function changeFor(bucket: WeekendBucket, quote: FlightQuote): number | null {
+    return priceChange(pointsFor(bucket, quote));
+  }
+
+  // Actions
+  async function load(): Promise<void> {
+    try {
+      series.value = await loadPriceHistory();
+    } catch {
+      // Private browsing or blocked storage: keep history for this page only
+      isAvailable.value = false;
+    }
+    loaded = true;
+    const queued = pending;
+    pending = [];
+    await record(queued);
+  }
+
+  async function record(weekendQuotes: WeekendQuote[]): Promise<void> {
+    if (!loaded) {
+      pending.push(...weekendQuotes);
+      return;
+    }
+
+    const next = new Map(series.value);
+    const added = observationsFromQuotes(weekendQuotes).filter((o) => {
+      const points = next.get(o.seriesKey) ?? [];
+      if (!isNewObservation(o, points[points.length - 1])) return false;
+      const updated = [...points, { priceUsd: o.priceUsd, observedAt: o.observedAt }];
+      updated.sort((a, b) => a.observedAt.localeCompare(b.observedAt));
+      next.set(o.seriesKey, updated);
+      return true;
+    });
+    if (added.length === 0) return;
+
+    series.value = next;
+    if (!isAvailable.value) return;
+    try {
+      await savePriceObservations(added);
+    } catch {
+      isAvailable.value = false;
+    }
+  }
+
+  async function clear(): Promise<void> {
+    series.value = new Map();
+    if (!isAvailable.value) return;
+    try {
+      await clearPriceHistory();
+    } catch {
+      isAvailable.value = false;
+    }
+  }
+
+  // Record every quote the client sees, whether fetched or streamed in by a search
+  watch(
+    () => sessionStore.quotes,
+    (quotes) => {
+      record(quotes);
+    },
+    { immediate: true }
+  );
+
+  load();
+
+  return {
+    // State
+    series,
+    isAvailable,
+    // Getters
+    pointsFor,
+    changeFor,
+    // Actions
+    record,
+    clear,
+  };
+});
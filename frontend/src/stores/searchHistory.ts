@@ -0,0 +1,62 @@
+import { defineStore } from 'pinia';
+import { ref, watch } from 'vue';
+import { useSessionStore } from '@/stores/session';
+import {
+  appendHistoryEntry,
+  createHistoryEntry,
+  diffAgainstPrevious,
+  loadSearchHistory,
+  saveSearchHistory,
+} from '@/services/searchHistory';
+import type { SearchHistoryDiff, SearchHistoryEntry, SearchRun } from '@/services/searchHistory';
+
+export const useSearchHistoryStore = defineStore('searchHistory', () => {
+  const sessionStore = useSessionStore();
+
+  // State
+  // Newest first
+  const entries = ref<SearchHistoryEntry[]>(loadSearchHistory());
+
+  // Getters
+  function diffFor(entry: SearchHistoryEntry): SearchHistoryDiff | null {
+    return diffAgainstPrevious(entries.value, entry);
+  }
+
+  // Actions
+  async function record(run: SearchRun): Promise<void> {
+    // Completed runs refresh key usage before finishing; cancelled and failed ones still spent credits
+    if (run.outcome !== 'completed') await sessionStore.refreshApiKeyUsage();
+    const reported = sessionStore.apiKeyUsage.some((key) => key.totalSearchesLeft !== null);
+    const entry = createHistoryEntry(run, reported ? sessionStore.totalRemainingSearches : null);
+    entries.value = appendHistoryEntry(entries.value, entry);
+  }
+
+  function removeEntry(id: string): void {
+    entries.value = entries.value.filter((entry) => entry.id !== id);
+  }
+
+  function clearHistory(): void {
+    entries.value = [];
+  }
+
+  // Sync: a superseded run is finished and replaced in the same tick
+  watch(
+    () => sessionStore.searchRun,
+    (run) => {
+      if (run?.outcome) void record(run);
+    },
+    { flush: 'sync' }
+  );
+
+  watch(entries, (value) => saveSearchHistory(value));
+
+  return {
+    // State
+    entries,
+    // Getters
+    diffFor,
+    // Actions
+    removeEntry,
+    clearHistory,
+  };
+});
@@ -1,6 +1,24 @@
 import { defineStore } from 'pinia';
-import { ref, computed } from 'vue';
+import { ref, shallowRef, computed, watch } from 'vue';
 import { api, ApiError } from '@/services/api';
+import {
+  loadPersistedSession,
+  savePersistedSession,
+  clearPersistedSession,
+  isPersistedSessionExpired,
+  createSessionChannel,
+} from '@/services/sessionPersistence';
+import type { SessionSyncMessage } from '@/services/sessionPersistence';
+import type { FareWatch } from '@/services/fareWatch';
+import type { SearchOutcome, SearchRun } from '@/services/searchHistory';
+import { cachedRouteRequests } from '@/services/searchPlanner';
+import { describeLoss } from '@/services/health';
+import type { SessionRecovery } from '@/services/health';
+import { notificationFromError } from '@/services/notifications';
+import type { NotificationSource } from '@/services/notifications';
+import { useNotificationsStore } from '@/stores/notifications';
+import { clearDemoBackend, isDemoMode, setDemoMode } from '@/services/mockBackend';
+import { DEMO_API_KEY, DEMO_CONFIG } from '@/services/mockFixtures';
 import type {
   SessionResponse,
   SessionInfoResponse,
@@ -11,12 +29,18 @@ import type {
   SearchFlightsRequest,
   SearchFlightsResponse,
   SearchProgressEvent,
+  FlightSearchResult,
   WeekendQuote,
   WeekendBucket,
   ApiKeyUsage,
 } from '@/types/api';
 
+// Cached route searches run together when carrying quotes over to a renewed session
+const CARRY_OVER_BATCH = 6;
+
 export const useSessionStore = defineStore('session', () => {
+  const notificationsStore = useNotificationsStore();
+
   // State
   const sessionId = ref<string | null>(null);
   const sessionData = ref<SessionResponse | null>(null);
@@ -26,20 +50,44 @@ export const useSessionStore = defineStore('session', () => {
   const states = ref<string[]>([]);
   const tournaments = ref<string[]>([]);
   const buckets = ref<WeekendBucket[]>([]);
-  const quotes = ref<WeekendQuote[]>([]);
+  // Shallow: thousands of quotes need no deep proxies, and the list is always replaced, never mutated
+  const quotes = shallowRef<WeekendQuote[]>([]);
   const quotesCount = ref(0);
   const apiKeyUsage = ref<ApiKeyUsage[]>([]);
   const lastSearchResponse = ref<SearchFlightsResponse | null>(null);
+  // The current or most recent streamed search, recorded by the search history once it ends
+  const searchRun = shallowRef<SearchRun | null>(null);
+  // Weekends re-checked in the background; persisted with the session
+  const fareWatches = ref<FareWatch[]>([]);
+  // Running against the in-browser mock backend with sample data
+  const isDemo = ref(isDemoMode());
+  // Raw keys this tab created the session with; memory only, for renewing or recovering it
+  const sessionKeys = shallowRef<string[]>([]);
+  // Set when the session was lost, until the user reconnects or starts over
+  const recovery = shallowRef<SessionRecovery | null>(null);
+  // Search interrupted by a lost session, offered again once recovered
+  const resumableSearch = ref<SearchFlightsRequest | null>(null);
   
   const isLoading = ref(false);
+  const isRestoring = ref(false);
   const isLoadingQuotes = ref(false);
   const isSearching = ref(false);
   const isUpdatingConfig = ref(false);
-  const error = ref<string | null>(null);
+  // Notification for the failure the current screen shows inline, if any
+  const errorId = ref<string | null>(null);
 
   // Search progress state
   const searchProgress = ref<SearchProgressEvent | null>(null);
   const searchAbortController = ref<AbortController | null>(null);
+  // Non-zero while the search stream is reconnecting after a dropped connection
+  const searchReconnectAttempt = ref(0);
+  // Weekend quote keys ("AIRPORT|weekendStart") updated by the current or most recent search
+  const liveQuoteKeys = ref<Set<string>>(new Set());
+  // Cheapest fare reported so far by the running search
+  const cheapestSoFar = ref<SearchProgressEvent | null>(null);
+
+  // In-flight quotes request; superseded requests are cancelled
+  let quotesAbortController: AbortController | null = null;
 
   // Getters
   const isAuthenticated = computed(() => sessionId.value !== null);
@@ -50,54 +98,249 @@ export const useSessionStore = defineStore('session', () => {
   const totalRemainingSearches = computed(() => 
     apiKeyUsage.value.reduce((sum, key) => sum + (key.totalSearchesLeft ?? 0), 0)
   );
+  // Dismissing the notification in the notification center clears it here too
+  const error = computed(() => notificationsStore.find(errorId.value)?.message ?? null);
+
+  // Persist the active session so a reload can resume it
+  watch(
+    [sessionId, config, () => sessionInfo.value?.expiresAt, fareWatches, isDemo],
+    ([id, currentConfig, expiresAt, watches, demo]) => {
+      if (id) {
+        savePersistedSession({ sessionId: id, config: currentConfig, expiresAt, watches, isDemo: demo });
+      } else {
+        clearPersistedSession();
+      }
+    },
+    { deep: true }
+  );
+
+  // Keep other open tabs on the same session
+  const channel = createSessionChannel(handleSyncMessage);
+
+  function handleSyncMessage(message: SessionSyncMessage): void {
+    switch (message.type) {
+      case 'started':
+        if (message.session.sessionId !== sessionId.value) {
+          followDemoMode(message.session.isDemo === true);
+          sessionId.value = message.session.sessionId;
+          config.value = message.session.config;
+          fareWatches.value = message.session.watches ?? [];
+          errorId.value = null;
+          loadInitialData();
+        }
+        break;
+      case 'config-updated':
+        if (message.sessionId === sessionId.value) {
+          config.value = message.config;
+          loadInitialData();
+        }
+        break;
+      case 'watches-updated':
+        if (message.sessionId === sessionId.value) {
+          fareWatches.value = message.watches;
+        }
+        break;
+      case 'ended':
+        if (message.sessionId === sessionId.value) {
+          cancelSearch();
+          // The ending tab has cleared the demo backend already
+          followDemoMode(false);
+          resetState();
+        }
+        break;
+    }
+  }
+
+  // A session started in another tab decides which backend this tab talks to
+  function followDemoMode(demo: boolean): void {
+    if (demo === isDemo.value) return;
+    setDemoMode(demo);
+    isDemo.value = demo;
+  }
+
+  // Record a failed action and show it inline; an expired session sends the user back to setup
+  function handleError(e: unknown, fallback: string, source: NotificationSource, retry?: () => unknown): void {
+    if (e instanceof ApiError && e.isSessionExpired) {
+      expireSession();
+      return;
+    }
+    errorId.value = notificationsStore.reportError(e, source, fallback, { retry })?.id ?? null;
+  }
+
+  // Failures of refreshes nobody waits on: recorded, but not shown inline
+  function reportBackgroundError(e: unknown, fallback: string, source: NotificationSource, retry?: () => unknown): void {
+    if (e instanceof ApiError && e.isSessionExpired) {
+      expireSession();
+      return;
+    }
+    notificationsStore.reportError(e, source, fallback, { retry, background: true });
+  }
+
+  function expireSession(): void {
+    const expiredSessionId = sessionId.value;
+    if (!expiredSessionId) return;
+    const lost = captureRecovery();
+    cancelSearch();
+    resetState();
+    recovery.value = lost;
+    const notification = notificationsStore.notify({
+      severity: 'warning',
+      source: 'expireSession',
+      message: lost ? describeLoss(lost.reason) : 'Your session has expired. Enter your API keys to start a new one.',
+    });
+    // With a recovery, the setup screen explains what happened and offers to reconnect
+    errorId.value = lost ? null : notification.id;
+    channel?.post({ type: 'ended', sessionId: expiredSessionId });
+  }
+
+  // A session gone before its expiry time did not run out; the backend lost it
+  function captureRecovery(): SessionRecovery | null {
+    if (!sessionId.value || isDemo.value) return null;
+    const expiresAt = Date.parse(sessionInfo.value?.expiresAt ?? '');
+    const run = searchRun.value;
+    // Running now, or failed a moment ago because the stream hit the lost session
+    const interrupted = run && (!run.outcome || (run.outcome === 'failed' && Date.now() - Date.parse(run.finishedAt ?? '') < 5000));
+    return {
+      reason: expiresAt > Date.now() ? 'backend-restarted' : 'expired',
+      apiKeys: sessionKeys.value,
+      config: { ...config.value },
+      watches: fareWatches.value,
+      interruptedSearch: interrupted ? run.request : null,
+      lostAt: new Date().toISOString(),
+    };
+  }
 
   // Actions
   async function createSession(apiKeys: string[], initialConfig?: SessionConfig): Promise<boolean> {
     isLoading.value = true;
-    error.value = null;
+    errorId.value = null;
 
     try {
       const response = await api.createSession({ apiKeys, config: initialConfig });
       sessionId.value = response.sessionId;
       sessionData.value = response;
       config.value = response.config;
+      sessionKeys.value = apiKeys;
+      recovery.value = null;
       
       // Load initial data after session creation
       await loadInitialData();
+
+      channel?.post({
+        type: 'started',
+        session: {
+          sessionId: response.sessionId,
+          config: response.config,
+          expiresAt: sessionInfo.value?.expiresAt,
+          watches: fareWatches.value,
+          isDemo: isDemo.value,
+        },
+      });
       
       return true;
     } catch (e) {
-      if (e instanceof ApiError) {
-        error.value = e.message;
-      } else if (e instanceof Error) {
-        error.value = e.message;
-      } else {
-        error.value = 'An unknown error occurred';
-      }
+      handleError(e, 'An unknown error occurred', 'createSession', () => createSession(apiKeys, initialConfig));
       return false;
     } finally {
       isLoading.value = false;
     }
   }
 
+  // Session on fixture data, for trying the app without SerpAPI keys or a backend
+  async function startDemoSession(): Promise<boolean> {
+    setDemoMode(true);
+    isDemo.value = true;
+    const success = await createSession([DEMO_API_KEY], DEMO_CONFIG);
+    if (!success) leaveDemoMode();
+    return success;
+  }
+
+  // Recreate a lost session with the same keys, config and fare watches. `apiKeys` replaces the
+  // remembered keys, which a session resumed after a reload does not have.
+  async function recoverSession(apiKeys?: string[]): Promise<boolean> {
+    const lost = recovery.value;
+    const keys = apiKeys ?? lost?.apiKeys ?? [];
+    if (!lost || keys.length === 0) return false;
+
+    fareWatches.value = lost.watches;
+    const success = await createSession(keys, lost.config);
+    if (success) {
+      resumableSearch.value = lost.interruptedSearch;
+    } else {
+      fareWatches.value = [];
+    }
+    return success;
+  }
+
+  function dismissRecovery(): void {
+    recovery.value = null;
+    errorId.value = null;
+  }
+
+  function takeResumableSearch(): SearchFlightsRequest | null {
+    const request = resumableSearch.value;
+    resumableSearch.value = null;
+    return request;
+  }
+
+  // Sessions last a fixed hour, so renewing means swapping in a new one before this one runs out
+  async function renewSession(): Promise<boolean> {
+    const previousId = sessionId.value;
+    if (!previousId || sessionKeys.value.length === 0 || isSearching.value) return false;
+
+    // The new session starts with no quotes; cached routes refill it without spending credits
+    const carried = cachedRouteRequests(quotes.value);
+    const success = await createSession(sessionKeys.value, config.value);
+    if (success) {
+      // The old session expires on its own, so a failure here only needs recording
+      api.deleteSession(previousId).catch((e) => {
+        notificationsStore.reportError(e, 'endSession', 'Could not end the previous session', { background: true });
+      });
+      await carryOverQuotes(carried);
+      await fetchQuotes();
+    }
+    return success;
+  }
+
+  async function carryOverQuotes(requests: SearchFlightsRequest[]): Promise<void> {
+    const id = sessionId.value;
+    if (!id) return;
+
+    isLoading.value = true;
+    try {
+      // A few at a time keeps a long list from flooding the backend
+      for (let i = 0; i < requests.length; i += CARRY_OVER_BATCH) {
+        await Promise.all(requests.slice(i, i + CARRY_OVER_BATCH).map((request) => api.searchFlights(id, request)));
+      }
+    } catch (e) {
+      reportBackgroundError(e, 'Some cached fares could not be carried over to the renewed session', 'searchFlights');
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  function leaveDemoMode(): void {
+    if (!isDemo.value) return;
+    setDemoMode(false);
+    clearDemoBackend();
+    isDemo.value = false;
+  }
+
   async function updateConfig(newConfig: UpdateConfigRequest): Promise<boolean> {
     if (!sessionId.value) return false;
 
     isUpdatingConfig.value = true;
-    error.value = null;
+    errorId.value = null;
 
     try {
       const response = await api.updateConfig(sessionId.value, newConfig);
       config.value = response.config;
+      channel?.post({ type: 'config-updated', sessionId: sessionId.value, config: response.config });
+      // Filter window may have changed, so buckets/airports/tournaments are stale
+      await loadInitialData();
       return true;
     } catch (e) {
-      if (e instanceof ApiError) {
-        error.value = e.message;
-      } else if (e instanceof Error) {
-        error.value = e.message;
-      } else {
-        error.value = 'Failed to update configuration';
-      }
+      handleError(e, 'Failed to update configuration', 'updateConfig', () => updateConfig(newConfig));
       return false;
     } finally {
       isUpdatingConfig.value = false;
@@ -108,7 +351,7 @@ export const useSessionStore = defineStore('session', () => {
     if (!sessionId.value) return false;
 
     isSearching.value = true;
-    error.value = null;
+    errorId.value = null;
 
     try {
       const response = await api.searchFlights(sessionId.value, request);
@@ -119,19 +362,67 @@ export const useSessionStore = defineStore('session', () => {
       await refreshApiKeyUsage();
       return true;
     } catch (e) {
-      if (e instanceof ApiError) {
-        error.value = e.message;
-      } else if (e instanceof Error) {
-        error.value = e.message;
-      } else {
-        error.value = 'Flight search failed';
-      }
+      handleError(e, 'Flight search failed', 'searchFlights', () => searchFlights(request));
       return false;
     } finally {
       isSearching.value = false;
     }
   }
 
+  // Merge search results by route and dates, newer results replacing older ones
+  function mergeSearchResults(
+    existing: FlightSearchResult[],
+    incoming: FlightSearchResult[]
+  ): SearchFlightsResponse {
+    const byRoute = new Map<string, FlightSearchResult>();
+    for (const result of [...existing, ...incoming]) {
+      byRoute.set(`${result.destination}|${result.departureDate}|${result.returnDate}`, result);
+    }
+    const results = [...byRoute.values()];
+    return {
+      results,
+      totalQuotes: results.reduce((sum, r) => sum + r.quotes.length, 0),
+    };
+  }
+
+  // Upsert a search result into the quotes list as the weekend row it belongs to
+  function mergeResultIntoQuotes(result: FlightSearchResult): void {
+    const key = `${result.destination}|${result.departureDate}`;
+    const index = quotes.value.findIndex(
+      (wq) => wq.bucket.key.airport === result.destination && wq.bucket.key.weekendStart === result.departureDate
+    );
+    const bucket = index >= 0
+      ? quotes.value[index]!.bucket
+      : buckets.value.find((b) => b.key.airport === result.destination && b.key.weekendStart === result.departureDate);
+    // Custom departure dates have no weekend bucket to attach to
+    if (!bucket) return;
+
+    const row: WeekendQuote = {
+      bucket,
+      quotes: [...result.quotes].sort((a, b) => a.priceUsd - b.priceUsd),
+      isFriendAirport: (config.value.friendAirports ?? []).includes(result.destination),
+      cacheInfo: result.cacheInfo,
+    };
+    if (index >= 0) {
+      quotes.value = quotes.value.map((wq, i) => (i === index ? row : wq));
+    } else {
+      quotes.value = [...quotes.value, row];
+      quotesCount.value++;
+    }
+    liveQuoteKeys.value.add(key);
+  }
+
+  // `run` guards against finishing a newer search that started while this one wrapped up
+  function finishSearchRun(outcome: SearchOutcome, run = searchRun.value): void {
+    if (!run || run.outcome || run !== searchRun.value) return;
+    searchRun.value = {
+      ...run,
+      finishedAt: new Date().toISOString(),
+      outcome,
+      response: lastSearchResponse.value ?? undefined,
+    };
+  }
+
   function searchFlightsStream(
     request: SearchFlightsRequest,
     onComplete?: () => void
@@ -141,11 +432,22 @@ export const useSessionStore = defineStore('session', () => {
     // Cancel any existing search
     if (searchAbortController.value) {
       searchAbortController.value.abort();
+      finishSearchRun('cancelled');
     }
 
     isSearching.value = true;
     searchProgress.value = null;
-    error.value = null;
+    searchReconnectAttempt.value = 0;
+    lastSearchResponse.value = { results: [], totalQuotes: 0 };
+    liveQuoteKeys.value = new Set();
+    cheapestSoFar.value = null;
+    errorId.value = null;
+    searchRun.value = {
+      request,
+      config: { ...config.value },
+      startedAt: new Date().toISOString(),
+      remainingBefore: apiKeyUsage.value.some((key) => key.totalSearchesLeft !== null) ? totalRemainingSearches.value : null,
+    };
 
     searchAbortController.value = api.searchFlightsStream(
       sessionId.value,
@@ -153,32 +455,133 @@ export const useSessionStore = defineStore('session', () => {
       {
         onProgress: (event: SearchProgressEvent) => {
           searchProgress.value = event;
+          searchReconnectAttempt.value = 0;
+          if (event.priceUsd !== null && (cheapestSoFar.value?.priceUsd == null || event.priceUsd < cheapestSoFar.value.priceUsd)) {
+            cheapestSoFar.value = event;
+          }
+          if (event.result) {
+            lastSearchResponse.value = mergeSearchResults(lastSearchResponse.value?.results ?? [], [event.result]);
+            // Provisional row until the complete event arrives
+            mergeResultIntoQuotes(event.result);
+          }
+        },
+        onReconnect: (attempt: number) => {
+          searchReconnectAttempt.value = attempt;
         },
         onComplete: async (response: SearchFlightsResponse) => {
-          lastSearchResponse.value = response;
+          const run = searchRun.value;
+          // A resumed stream only completes with the searches it ran, so keep earlier partials
+          lastSearchResponse.value = mergeSearchResults(lastSearchResponse.value?.results ?? [], response.results);
+          // Reconcile provisional rows with the authoritative results
+          lastSearchResponse.value.results.forEach(mergeResultIntoQuotes);
           isSearching.value = false;
           searchProgress.value = null;
+          searchReconnectAttempt.value = 0;
           // Refresh session info to get updated quotesLoaded count
           await refreshSessionInfo();
           // Refresh API key usage after search
           await refreshApiKeyUsage();
+          finishSearchRun('completed', run);
           if (onComplete) onComplete();
         },
-        onError: (errorMsg: string) => {
-          error.value = errorMsg;
+        onError: (err: ApiError) => {
           isSearching.value = false;
           searchProgress.value = null;
+          searchReconnectAttempt.value = 0;
+          finishSearchRun('failed');
+          handleError(err, 'Flight search failed', 'searchFlightsStream', () => searchFlightsStream(request, onComplete));
         },
       }
     );
   }
 
+  // Search a single route without touching the main search state; used by background checks.
+  // Results are merged into the quotes list, but failures are left to the caller.
+  async function searchRoute(request: SearchFlightsRequest): Promise<SearchFlightsResponse> {
+    if (!sessionId.value) throw new Error('No active session');
+
+    try {
+      const response = await api.searchFlights(sessionId.value, request);
+      response.results.forEach(mergeResultIntoQuotes);
+      return response;
+    } catch (e) {
+      if (e instanceof ApiError && e.isSessionExpired) expireSession();
+      throw e;
+    }
+  }
+
+  function setFareWatches(watches: FareWatch[]): void {
+    fareWatches.value = watches;
+    if (sessionId.value) {
+      channel?.post({ type: 'watches-updated', sessionId: sessionId.value, watches });
+    }
+  }
+
+  // Adds the watch, or replaces the existing watch for the same weekend
+  function saveFareWatch(watch: FareWatch): void {
+    const others = fareWatches.value.filter((w) => w.id !== watch.id);
+    setFareWatches([...others, watch]);
+  }
+
+  function updateFareWatch(id: string, patch: Partial<Omit<FareWatch, 'id' | 'key'>>): void {
+    setFareWatches(fareWatches.value.map((w) => (w.id === id ? { ...w, ...patch } : w)));
+  }
+
+  function removeFareWatch(id: string): void {
+    setFareWatches(fareWatches.value.filter((w) => w.id !== id));
+  }
+
   function cancelSearch(): void {
     if (searchAbortController.value) {
       searchAbortController.value.abort();
       searchAbortController.value = null;
+      finishSearchRun('cancelled');
       isSearching.value = false;
       searchProgress.value = null;
+      searchReconnectAttempt.value = 0;
+    }
+  }
+
+  // Resume a session saved by a previous page load, if the backend still has it
+  async function restoreSession(): Promise<boolean> {
+    const persisted = loadPersistedSession();
+    if (!persisted || sessionId.value) return false;
+
+    if (isPersistedSessionExpired(persisted)) {
+      clearPersistedSession();
+      return false;
+    }
+
+    isRestoring.value = true;
+    errorId.value = null;
+
+    try {
+      const info = await api.getSession(persisted.sessionId);
+      sessionId.value = info.sessionId;
+      sessionInfo.value = info;
+      config.value = info.config;
+      fareWatches.value = persisted.watches ?? [];
+      await loadInitialData();
+      return true;
+    } catch (e) {
+      if (e instanceof ApiError && e.isSessionExpired) {
+        clearPersistedSession();
+        errorId.value = notificationsStore.notify({
+          severity: 'warning',
+          source: 'restoreSession',
+          message: 'Your previous session has expired. Enter your API keys to start a new one.',
+        }).id;
+      } else {
+        const input = notificationFromError(e, 'restoreSession', 'Could not resume previous session');
+        if (input) {
+          const message = input.message === 'Could not resume previous session' ? input.message : `Could not resume previous session: ${input.message}`;
+          errorId.value = notificationsStore.notify({ ...input, message }, () => restoreSession()).id;
+        }
+      }
+      leaveDemoMode();
+      return false;
+    } finally {
+      isRestoring.value = false;
     }
   }
 
@@ -188,8 +591,8 @@ export const useSessionStore = defineStore('session', () => {
     try {
       sessionInfo.value = await api.getSession(sessionId.value);
       config.value = sessionInfo.value.config;
-    } catch {
-      // Silently fail - not critical
+    } catch (e) {
+      reportBackgroundError(e, 'Could not refresh session info', 'refreshSessionInfo', refreshSessionInfo);
     }
   }
 
@@ -199,8 +602,8 @@ export const useSessionStore = defineStore('session', () => {
     try {
       const response = await api.getApiKeyUsage(sessionId.value);
       apiKeyUsage.value = response.keys;
-    } catch {
-      // Silently fail - usage display is not critical
+    } catch (e) {
+      reportBackgroundError(e, 'Could not refresh API key usage', 'refreshApiKeyUsage', refreshApiKeyUsage);
     }
   }
 
@@ -225,66 +628,87 @@ export const useSessionStore = defineStore('session', () => {
       buckets.value = bucketsRes.buckets;
       apiKeyUsage.value = usageRes.keys;
     } catch (e) {
-      if (e instanceof ApiError) {
-        error.value = e.message;
-      } else if (e instanceof Error) {
-        error.value = e.message;
-      }
+      handleError(e, 'Failed to load session data', 'loadInitialData', loadInitialData);
     }
   }
 
   async function fetchQuotes(params?: QuotesQueryParams): Promise<void> {
     if (!sessionId.value) return;
 
+    quotesAbortController?.abort();
+    const controller = new AbortController();
+    quotesAbortController = controller;
+
     isLoadingQuotes.value = true;
-    error.value = null;
+    errorId.value = null;
 
     try {
-      const response: QuotesResponse = await api.getQuotes(sessionId.value, params);
+      const response: QuotesResponse = await api.getQuotes(sessionId.value, params, { signal: controller.signal });
       quotes.value = response.quotes;
       quotesCount.value = response.count;
       // Refresh API key usage after each request
       await refreshApiKeyUsage();
     } catch (e) {
-      if (e instanceof ApiError) {
-        error.value = e.message;
-      } else if (e instanceof Error) {
-        error.value = e.message;
-      } else {
-        error.value = 'Failed to fetch quotes';
-      }
+      // A newer fetchQuotes call replaced this one
+      if (e instanceof ApiError && e.isAborted) return;
+      handleError(e, 'Failed to fetch quotes', 'fetchQuotes', () => fetchQuotes(params));
     } finally {
-      isLoadingQuotes.value = false;
+      if (quotesAbortController === controller) {
+        quotesAbortController = null;
+        isLoadingQuotes.value = false;
+      }
     }
   }
 
   async function endSession(): Promise<void> {
     if (!sessionId.value) return;
 
+    const endedSessionId = sessionId.value;
     try {
-      await api.deleteSession(sessionId.value);
-    } catch {
-      // Ignore errors when ending session
+      await api.deleteSession(endedSessionId);
+    } catch (e) {
+      // Local state is cleared either way; the server drops the session when it expires
+      const input = notificationFromError(e, 'endSession', 'Could not end the session');
+      if (input) {
+        notificationsStore.notify({
+          ...input,
+          severity: 'warning',
+          message: `The server did not confirm the session ended (${input.message}); it will expire on its own`,
+          retryable: false,
+          background: true,
+        });
+      }
     } finally {
-      // Reset all state
-      sessionId.value = null;
-      sessionData.value = null;
-      sessionInfo.value = null;
-      config.value = {};
-      airports.value = [];
-      states.value = [];
-      tournaments.value = [];
-      buckets.value = [];
-      quotes.value = [];
-      quotesCount.value = 0;
-      apiKeyUsage.value = [];
-      lastSearchResponse.value = null;
-      error.value = null;
+      resetState();
+      channel?.post({ type: 'ended', sessionId: endedSessionId });
     }
   }
 
+  function resetState(): void {
+    sessionId.value = null;
+    sessionData.value = null;
+    sessionInfo.value = null;
+    config.value = {};
+    airports.value = [];
+    states.value = [];
+    tournaments.value = [];
+    buckets.value = [];
+    quotes.value = [];
+    quotesCount.value = 0;
+    apiKeyUsage.value = [];
+    lastSearchResponse.value = null;
+    fareWatches.value = [];
+    sessionKeys.value = [];
+    resumableSearch.value = null;
+    liveQuoteKeys.value = new Set();
+    cheapestSoFar.value = null;
+    errorId.value = null;
+    // Back on the key setup screen, which always starts against the real backend
+    leaveDemoMode();
+  }
+
   function clearError(): void {
-    error.value = null;
+    errorId.value = null;
   }
 
   return {
@@ -301,13 +725,23 @@ export const useSessionStore = defineStore('session', () => {
     quotesCount,
     apiKeyUsage,
     lastSearchResponse,
+    searchRun,
+    fareWatches,
+    isDemo,
+    sessionKeys,
+    recovery,
+    resumableSearch,
     searchProgress,
+    searchReconnectAttempt,
+    liveQuoteKeys,
+    cheapestSoFar,
     isLoading,
+    isRestoring,
     isLoadingQuotes,
     isSearching,
     isUpdatingConfig,
-    error,
     // Getters
+    error,
     isAuthenticated,
     hasSession,
     totalBuckets,
@@ -316,9 +750,19 @@ export const useSessionStore = defineStore('session', () => {
     totalRemainingSearches,
     // Actions
     createSession,
+    startDemoSession,
+    recoverSession,
+    dismissRecovery,
+    takeResumableSearch,
+    renewSession,
+    restoreSession,
     updateConfig,
     searchFlights,
     searchFlightsStream,
+    searchRoute,
+    saveFareWatch,
+    updateFareWatch,
+    removeFareWatch,
     cancelSearch,
     refreshSessionInfo,
     loadInitialData,
@@ -326,5 +770,6 @@ export const useSessionStore = defineStore('session', () => {
     endSession,
     clearError,
     refreshApiKeyUsage,
+    expireSession,
   };
 });
@@ -0,0 +1,89 @@
+import { defineStore } from 'pinia';
+import { ref, shallowRef, computed, watch } from 'vue';
+import { useSessionStore } from '@/stores/session';
+import type { QuoteRow } from '@/services/quoteQuery';
+import {
+  createShortlistEntry,
+  loadShortlist,
+  resolveShortlist,
+  saveShortlist,
+  shortlistId,
+} from '@/services/shortlist';
+import type { ShortlistEntry } from '@/services/shortlist';
+
+export const useShortlistStore = defineStore('shortlist', () => {
+  const sessionStore = useSessionStore();
+
+  // State
+  const entries = ref<ShortlistEntry[]>(loadShortlist());
+  // The quotes view's memoized rows (FlightSearch allQuoteRows), so pins never re-flatten every quote
+  const quoteRows = shallowRef<QuoteRow[]>([]);
+
+  // Getters
+  const pinnedIds = computed(() => new Set(entries.value.map((e) => e.id)));
+
+  // Each pin checked against the quotes currently loaded for the session
+  const resolved = computed(() => resolveShortlist(entries.value, quoteRows.value));
+
+  // Statuses are meaningless while quotes are being reloaded
+  const isChecking = computed(() => sessionStore.isLoadingQuotes);
+
+  const flaggedCount = computed(() => resolved.value.filter((r) => r.status !== 'current').length);
+
+  function isPinned(row: QuoteRow): boolean {
+    return pinnedIds.value.has(shortlistId(row.bucket, row.quote));
+  }
+
+  // Actions
+  function setQuoteRows(rows: QuoteRow[]): void {
+    quoteRows.value = rows;
+  }
+
+  function pin(row: QuoteRow): void {
+    if (isPinned(row)) return;
+    entries.value = [...entries.value, createShortlistEntry(row)];
+  }
+
+  function unpin(id: string): void {
+    entries.value = entries.value.filter((e) => e.id !== id);
+  }
+
+  function togglePin(row: QuoteRow): void {
+    if (isPinned(row)) {
+      unpin(shortlistId(row.bucket, row.quote));
+    } else {
+      pin(row);
+    }
+  }
+
+  // Accept the latest quote as the new baseline for a changed pin
+  function refreshPin(id: string): void {
+    const latest = resolved.value.find((r) => r.entry.id === id)?.latest;
+    if (!latest) return;
+    entries.value = entries.value.map((e) => (e.id === id ? { ...createShortlistEntry(latest), pinnedAt: e.pinnedAt } : e));
+  }
+
+  function clearShortlist(): void {
+    entries.value = [];
+  }
+
+  watch(entries, (value) => saveShortlist(value));
+
+  return {
+    // State
+    entries,
+    quoteRows,
+    // Getters
+    resolved,
+    isChecking,
+    flaggedCount,
+    isPinned,
+    // Actions
+    setQuoteRows,
+    pin,
+    unpin,
+    togglePin,
+    refreshPin,
+    clearShortlist,
+  };
+});
@@ -0,0 +1,177 @@
+import { defineStore } from 'pinia';
+import { ref, computed, watch } from 'vue';
+import { api, ApiError } from '@/services/api';
+import { useSessionStore } from '@/stores/session';
+import { planSearch, estimateQuota } from '@/services/searchPlanner';
+import type { QuotaEstimate, SearchPlan } from '@/services/searchPlanner';
+import { buildTeamMatrix, normalizeTeamOrigins, resultKey } from '@/services/teamTrip';
+import type { TeamOrigin } from '@/services/teamTrip';
+import type { FlightSearchResult, SearchFlightsRequest, SearchProgressEvent } from '@/types/api';
+
+const STORAGE_KEY = 'team-origins';
+
+function loadOrigins(): TeamOrigin[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? normalizeTeamOrigins(JSON.parse(stored) as TeamOrigin[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export const useTeamTripStore = defineStore('teamTrip', () => {
+  const sessionStore = useSessionStore();
+
+  // State
+  const origins = ref<TeamOrigin[]>(loadOrigins());
+  // Stream results for every origin, keyed by origin and route so re-runs replace older fares
+  const results = ref<Map<string, FlightSearchResult>>(new Map());
+  const isSearching = ref(false);
+  const currentOrigin = ref<string | null>(null);
+  const progress = ref<SearchProgressEvent | null>(null);
+  const error = ref<string | null>(null);
+
+  let abortController: AbortController | null = null;
+  let cancelled = false;
+
+  // Getters
+  const validOrigins = computed(() => normalizeTeamOrigins(origins.value));
+  const totalMembers = computed(() => validOrigins.value.reduce((sum, o) => sum + o.headcount, 0));
+  const matrix = computed(() =>
+    buildTeamMatrix(validOrigins.value, sessionStore.buckets, [...results.value.values()])
+  );
+
+  // Combined plan for all origins; only the session's own origin can be served from cache
+  function estimate(request: SearchFlightsRequest): QuotaEstimate {
+    const plans = validOrigins.value.map((origin) =>
+      planSearch({
+        buckets: sessionStore.buckets,
+        request: { ...request, originAirport: origin.airport },
+        config: sessionStore.config,
+        quotes: sessionStore.quotes,
+      })
+    );
+    const combined: SearchPlan = {
+      searches: plans.flatMap((p) => p.searches),
+      apiCalls: plans.reduce((sum, p) => sum + p.apiCalls, 0),
+      cachedCalls: plans.reduce((sum, p) => sum + p.cachedCalls, 0),
+    };
+    return estimateQuota(combined, sessionStore.apiKeyUsage);
+  }
+
+  // Actions
+  function streamOrigin(sessionId: string, request: SearchFlightsRequest): Promise<void> {
+    return new Promise((resolve, reject) => {
+      abortController = api.searchFlightsStream(sessionId, request, {
+        onProgress: (event) => {
+          progress.value = event;
+          if (event.result) addResults([event.result]);
+        },
+        onComplete: (response) => {
+          addResults(response.results);
+          resolve();
+        },
+        onError: reject,
+      });
+      // An aborted stream reports nothing, so a cancel has to settle the promise itself
+      abortController.signal.addEventListener('abort', () => {
+        if (cancelled) resolve();
+      });
+    });
+  }
+
+  function addResults(incoming: FlightSearchResult[]): void {
+    const next = new Map(results.value);
+    for (const result of incoming) next.set(resultKey(result), result);
+    results.value = next;
+  }
+
+  // Search every origin in turn; the key pool is shared, so origins never run in parallel
+  async function runTeamSearch(request: SearchFlightsRequest): Promise<boolean> {
+    const sessionId = sessionStore.sessionId;
+    if (!sessionId || validOrigins.value.length === 0 || isSearching.value) return false;
+
+    isSearching.value = true;
+    cancelled = false;
+    error.value = null;
+
+    try {
+      for (const origin of validOrigins.value) {
+        currentOrigin.value = origin.airport;
+        progress.value = null;
+        // Not persisted: a teammate's fares must not replace the session's own quotes
+        await streamOrigin(sessionId, { ...request, originAirport: origin.airport, persist: false });
+        if (cancelled) return false;
+      }
+      return true;
+    } catch (e) {
+      if (e instanceof ApiError && e.isSessionExpired) {
+        sessionStore.expireSession();
+      } else {
+        error.value = e instanceof Error ? e.message : 'Team search failed';
+      }
+      return false;
+    } finally {
+      isSearching.value = false;
+      currentOrigin.value = null;
+      progress.value = null;
+      abortController = null;
+      if (sessionStore.isAuthenticated) await sessionStore.refreshApiKeyUsage();
+    }
+  }
+
+  function cancelTeamSearch(): void {
+    cancelled = true;
+    abortController?.abort();
+  }
+
+  function addOrigin(): void {
+    origins.value = [...origins.value, { airport: '', headcount: 1 }];
+  }
+
+  function removeOrigin(index: number): void {
+    origins.value = origins.value.filter((_, i) => i !== index);
+  }
+
+  function clearResults(): void {
+    results.value = new Map();
+  }
+
+  watch(
+    origins,
+    (value) => {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(value));
+    },
+    { deep: true }
+  );
+
+  // Results belong to the session that produced them
+  watch(
+    () => sessionStore.sessionId,
+    () => {
+      cancelTeamSearch();
+      clearResults();
+    }
+  );
+
+  return {
+    // State
+    origins,
+    results,
+    isSearching,
+    currentOrigin,
+    progress,
+    error,
+    // Getters
+    validOrigins,
+    totalMembers,
+    matrix,
+    estimate,
+    // Actions
+    runTeamSearch,
+    cancelTeamSearch,
+    addOrigin,
+    removeOrigin,
+    clearResults,
+  };
+});
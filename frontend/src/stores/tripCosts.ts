@@ -0,0 +1,61 @@
+import { defineStore } from 'pinia';
+import { ref, computed, watch } from 'vue';
+import { useSessionStore } from '@/stores/session';
+import { loadTripCostSettings, saveTripCostSettings, tripCost } from '@/services/tripCost';
+import type { MetroCosts, TripCostBreakdown, TripCostSettings } from '@/services/tripCost';
+import type { FlightQuote, WeekendBucket } from '@/types/api';
+
+export const useTripCostsStore = defineStore('tripCosts', () => {
+  const sessionStore = useSessionStore();
+
+  // State
+  const settings = ref<TripCostSettings>(loadTripCostSettings());
+
+  // Getters
+  // Fallback night count for quotes without usable dates
+  const tripDurationDays = computed(() => sessionStore.config.tripDurationDays ?? 2);
+
+  // Changes whenever any total would, so cached rows know when to recompute
+  const costKey = computed(() => JSON.stringify([tripDurationDays.value, settings.value]));
+
+  function breakdown(bucket: WeekendBucket, quote: FlightQuote): TripCostBreakdown {
+    return tripCost(bucket, quote, tripDurationDays.value, settings.value);
+  }
+
+  function breakdownTotal(bucket: WeekendBucket, quote: FlightQuote): number {
+    return breakdown(bucket, quote).total;
+  }
+
+  // Actions
+  function setMetroCosts(airport: string, costs: MetroCosts): void {
+    settings.value = { ...settings.value, metros: { ...settings.value.metros, [airport]: costs } };
+  }
+
+  function resetMetroCosts(airport: string): void {
+    const { [airport]: _removed, ...metros } = settings.value.metros;
+    settings.value = { ...settings.value, metros };
+  }
+
+  // A null or zero fee clears it
+  function setEntryFee(tournament: string, fee: number | null): void {
+    const { [tournament]: _removed, ...entryFees } = settings.value.entryFees;
+    if (fee !== null && fee > 0) entryFees[tournament] = fee;
+    settings.value = { ...settings.value, entryFees };
+  }
+
+  watch(settings, (value) => saveTripCostSettings(value));
+
+  return {
+    // State
+    settings,
+    // Getters
+    tripDurationDays,
+    costKey,
+    breakdown,
+    breakdownTotal,
+    // Actions
+    setMetroCosts,
+    resetMetroCosts,
+    setEntryFee,
+  };
+});
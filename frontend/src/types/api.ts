@@ -1,182 +1,233 @@
 // API Types derived from OpenAPI spec v2.0.0
+//
+// Each response type is declared once as a zod schema and the TypeScript type is
+// inferred from it, so the validators used by services/api.ts cannot drift from the types.
+import { z } from 'zod';
 
 // Session Configuration
-export interface SessionConfig {
-  originAirport?: string;
-  friendAirports?: string[];
-  filterMonths?: number;
-  tripDurationDays?: number;
-}
-
-export interface CreateSessionRequest {
-  apiKeys: string[];
-  config?: SessionConfig;
-}
-
-export interface SessionResponse {
-  sessionId: string;
-  config: SessionConfig;
-  totalTournaments: number;
-  totalBuckets: number;
-  message?: string;
-}
-
-export interface SessionInfoResponse {
-  sessionId: string;
-  config: SessionConfig;
-  createdAt: string;
-  expiresAt: string;
-  totalTournaments: number;
-  totalBuckets: number;
-  quotesLoaded: number;
-  apiKeyCount: number;
-}
-
-export interface UpdateConfigRequest {
-  originAirport?: string;
-  friendAirports?: string[];
-  filterMonths?: number;
-  tripDurationDays?: number;
-}
-
-export interface UpdateConfigResponse {
-  message: string;
-  config: SessionConfig;
-}
-
-export interface AirportsResponse {
-  airports: string[];
-}
-
-export interface StatesResponse {
-  states: string[];
-}
-
-export interface TournamentsResponse {
-  tournaments: string[];
-}
-
-export interface QuotesResponse {
-  count: number;
-  quotes: WeekendQuote[];
-}
-
-export interface WeekendQuote {
-  bucket: WeekendBucket;
-  quotes: FlightQuote[];
-  isFriendAirport: boolean;
-  cacheInfo?: CacheInfo;
-}
+export const SessionConfigSchema = z.object({
+  originAirport: z.string().optional(),
+  friendAirports: z.array(z.string()).optional(),
+  filterMonths: z.number().optional(),
+  tripDurationDays: z.number().optional(),
+});
+export type SessionConfig = z.infer<typeof SessionConfigSchema>;
+
+export const CreateSessionRequestSchema = z.object({
+  apiKeys: z.array(z.string()),
+  config: SessionConfigSchema.optional(),
+});
+export type CreateSessionRequest = z.infer<typeof CreateSessionRequestSchema>;
+
+export const SessionResponseSchema = z.object({
+  sessionId: z.string(),
+  config: SessionConfigSchema,
+  totalTournaments: z.number(),
+  totalBuckets: z.number(),
+  message: z.string().optional(),
+});
+export type SessionResponse = z.infer<typeof SessionResponseSchema>;
+
+export const SessionInfoResponseSchema = z.object({
+  sessionId: z.string(),
+  config: SessionConfigSchema,
+  createdAt: z.string(),
+  expiresAt: z.string(),
+  totalTournaments: z.number(),
+  totalBuckets: z.number(),
+  quotesLoaded: z.number(),
+  apiKeyCount: z.number(),
+});
+export type SessionInfoResponse = z.infer<typeof SessionInfoResponseSchema>;
+
+export const UpdateConfigRequestSchema = z.object({
+  originAirport: z.string().optional(),
+  friendAirports: z.array(z.string()).optional(),
+  filterMonths: z.number().optional(),
+  tripDurationDays: z.number().optional(),
+});
+export type UpdateConfigRequest = z.infer<typeof UpdateConfigRequestSchema>;
+
+export const UpdateConfigResponseSchema = z.object({
+  message: z.string(),
+  config: SessionConfigSchema,
+});
+export type UpdateConfigResponse = z.infer<typeof UpdateConfigResponseSchema>;
+
+export const AirportsResponseSchema = z.object({
+  airports: z.array(z.string()),
+});
+export type AirportsResponse = z.infer<typeof AirportsResponseSchema>;
+
+export const StatesResponseSchema = z.object({
+  states: z.array(z.string()),
+});
+export type StatesResponse = z.infer<typeof StatesResponseSchema>;
+
+export const TournamentsResponseSchema = z.object({
+  tournaments: z.array(z.string()),
+});
+export type TournamentsResponse = z.infer<typeof TournamentsResponseSchema>;
 
 // Health
-export interface HealthResponse {
-  status: string;
-  activeSessions: number;
-}
-
-export interface WeekendBucket {
-  key: WeekendKey;
-  tournaments: Tournament[];
-}
-
-export interface WeekendKey {
-  airport: string;
-  weekendStart: string;
-}
-
-export interface Tournament {
-  name: string;
-  city: string;
-  stateOrRegion: string;
-  startDate: string;
-  endDate: string;
-  rawDateText: string;
-}
-
-export interface FlightQuote {
-  origin: string;
-  destination: string;
-  departureDate: string;
-  returnDate: string;
-  priceUsd: number;
-  outboundDepartureTime: string;
-  outboundArrivalTime: string;
-  airline: string;
-  googleFlightsUrl?: string;
-}
-
-export interface ErrorResponse {
-  error: string;
-}
-
-export interface QuotesQueryParams {
-  airport?: string;
-  state?: string;
-  maxPrice?: number;
-  search?: string;
-  friendsOnly?: boolean;
-  limit?: number;
-}
+export const HealthResponseSchema = z.object({
+  status: z.string(),
+  activeSessions: z.number(),
+});
+export type HealthResponse = z.infer<typeof HealthResponseSchema>;
+
+export const WeekendKeySchema = z.object({
+  airport: z.string(),
+  weekendStart: z.string(),
+});
+export type WeekendKey = z.infer<typeof WeekendKeySchema>;
+
+export const TournamentSchema = z.object({
+  name: z.string(),
+  city: z.string(),
+  stateOrRegion: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+  rawDateText: z.string(),
+});
+export type Tournament = z.infer<typeof TournamentSchema>;
+
+export const WeekendBucketSchema = z.object({
+  key: WeekendKeySchema,
+  tournaments: z.array(TournamentSchema),
+});
+export type WeekendBucket = z.infer<typeof WeekendBucketSchema>;
+
+export const FlightQuoteSchema = z.object({
+  origin: z.string(),
+  destination: z.string(),
+  departureDate: z.string(),
+  returnDate: z.string(),
+  priceUsd: z.number(),
+  outboundDepartureTime: z.string(),
+  outboundArrivalTime: z.string(),
+  airline: z.string(),
+  googleFlightsUrl: z.string().nullish(),
+});
+export type FlightQuote = z.infer<typeof FlightQuoteSchema>;
+
+// Cache Info
+export const CacheInfoSchema = z.object({
+  fromCache: z.boolean(),
+  cacheAgeSeconds: z.number().nullable(),
+  cachedAt: z.string().nullable(),
+});
+export type CacheInfo = z.infer<typeof CacheInfoSchema>;
+
+export const WeekendQuoteSchema = z.object({
+  bucket: WeekendBucketSchema,
+  quotes: z.array(FlightQuoteSchema),
+  isFriendAirport: z.boolean(),
+  cacheInfo: CacheInfoSchema.optional(),
+});
+export type WeekendQuote = z.infer<typeof WeekendQuoteSchema>;
+
+export const QuotesResponseSchema = z.object({
+  count: z.number(),
+  quotes: z.array(WeekendQuoteSchema),
+});
+export type QuotesResponse = z.infer<typeof QuotesResponseSchema>;
+
+export const ErrorResponseSchema = z.object({
+  error: z.string(),
+});
+export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
+
+export const QuotesQueryParamsSchema = z.object({
+  airport: z.string().optional(),
+  state: z.string().optional(),
+  maxPrice: z.number().optional(),
+  search: z.string().optional(),
+  friendsOnly: z.boolean().optional(),
+  limit: z.number().optional(),
+});
+export type QuotesQueryParams = z.infer<typeof QuotesQueryParamsSchema>;
 
 // Flight Search
-export interface SearchFlightsRequest {
-  originAirport?: string;
-  destinationAirport?: string;
-  departureDate?: string;
-  returnDate?: string;
-  maxResults?: number;
-  skipCache?: boolean;
-}
-
-export interface SearchFlightsResponse {
-  results: FlightSearchResult[];
-  totalQuotes: number;
-}
+export const SearchFlightsRequestSchema = z.object({
+  originAirport: z.string().optional(),
+  destinationAirport: z.string().optional(),
+  // Only search weekends at these airports
+  destinationAirports: z.array(z.string()).optional(),
+  departureDate: z.string().optional(),
+  returnDate: z.string().optional(),
+  maxResults: z.number().optional(),
+  skipCache: z.boolean().optional(),
+  // Stream only: planned search indices already received, skipped when resuming
+  skipIndices: z.array(z.number()).optional(),
+  // false leaves the session's quotes untouched, e.g. for another traveller's origin
+  persist: z.boolean().optional(),
+});
+export type SearchFlightsRequest = z.infer<typeof SearchFlightsRequestSchema>;
+
+export const FlightSearchResultSchema = z.object({
+  origin: z.string(),
+  destination: z.string(),
+  departureDate: z.string(),
+  returnDate: z.string(),
+  quotes: z.array(FlightQuoteSchema),
+  cacheInfo: CacheInfoSchema,
+});
+export type FlightSearchResult = z.infer<typeof FlightSearchResultSchema>;
+
+export const SearchFlightsResponseSchema = z.object({
+  results: z.array(FlightSearchResultSchema),
+  totalQuotes: z.number(),
+});
+export type SearchFlightsResponse = z.infer<typeof SearchFlightsResponseSchema>;
 
 // SSE Progress Event
-export interface SearchProgressEvent {
-  current: number;
-  total: number;
-  destination: string;
-  departureDate: string;
-  fromCache: boolean;
-  priceUsd: number | null;
-}
-
-export interface FlightSearchResult {
-  origin: string;
-  destination: string;
-  departureDate: string;
-  returnDate: string;
-  quotes: FlightQuote[];
-  cacheInfo: CacheInfo;
-}
-
-// Cache Info
-export interface CacheInfo {
-  fromCache: boolean;
-  cacheAgeSeconds: number | null;
-  cachedAt: string | null;
-}
+export const SearchProgressEventSchema = z.object({
+  current: z.number(),
+  total: z.number(),
+  destination: z.string(),
+  departureDate: z.string(),
+  fromCache: z.boolean(),
+  priceUsd: z.number().nullable(),
+  // Position of this search in the planned list, used to resume a dropped stream
+  index: z.number().optional(),
+  // Full result for this destination, so partial results are usable before "complete"
+  result: FlightSearchResultSchema.optional(),
+});
+export type SearchProgressEvent = z.infer<typeof SearchProgressEventSchema>;
 
 // Buckets
-export interface BucketsResponse {
-  count: number;
-  buckets: WeekendBucket[];
-}
-
-export interface ApiKeyUsageResponse {
-  keys: ApiKeyUsage[];
-}
-
-export interface ApiKeyUsage {
-  maskedKey: string;
-  accountEmail: string | null;
-  planName: string | null;
-  searchesPerMonth: number | null;
-  thisMonthUsage: number | null;
-  planSearchesLeft: number | null;
-  extraCredits: number | null;
-  totalSearchesLeft: number | null;
-  error: string | null;
-}
+export const BucketsResponseSchema = z.object({
+  count: z.number(),
+  buckets: z.array(WeekendBucketSchema),
+});
+export type BucketsResponse = z.infer<typeof BucketsResponseSchema>;
+
+export const ApiKeyUsageSchema = z.object({
+  maskedKey: z.string(),
+  accountEmail: z.string().nullable(),
+  planName: z.string().nullable(),
+  searchesPerMonth: z.number().nullable(),
+  thisMonthUsage: z.number().nullable(),
+  planSearchesLeft: z.number().nullable(),
+  extraCredits: z.number().nullable(),
+  totalSearchesLeft: z.number().nullable(),
+  error: z.string().nullable(),
+});
+export type ApiKeyUsage = z.infer<typeof ApiKeyUsageSchema>;
+
+export const ApiKeyUsageResponseSchema = z.object({
+  keys: z.array(ApiKeyUsageSchema),
+});
+export type ApiKeyUsageResponse = z.infer<typeof ApiKeyUsageResponseSchema>;
+
+export const ApiKeysRequestSchema = z.object({
+  apiKeys: z.array(z.string()),
+});
+export type ApiKeysRequest = z.infer<typeof ApiKeysRequestSchema>;
+
+export const ApiKeysUpdatedResponseSchema = z.object({
+  message: z.string(),
+  apiKeyCount: z.number(),
+});
+export type ApiKeysUpdatedResponse = z.infer<typeof ApiKeysUpdatedResponseSchema>;